@@ -6,17 +6,40 @@ import { useState, useEffect, useCallback } from "react";
 import { FileUpload } from "@/components/FileUpload";
 import { FiltersForm } from "@/components/FiltersForm";
 import { OptimizerSelect } from "@/components/OptimizerSelect";
+import { BlackLittermanViewsEditor } from "@/components/BlackLittermanViewsEditor";
+import { MonteCarloSettingsForm } from "@/components/MonteCarloSettingsForm";
+import { CvarSettingsForm } from "@/components/CvarSettingsForm";
+import { ConstraintsEditor } from "@/components/ConstraintsEditor";
+import { RiskFreeRateForm } from "@/components/RiskFreeRateForm";
 import { ResultsTable } from "@/components/ResultsTable";
+import { MethodComparisonTable } from "@/components/MethodComparisonTable";
 import { Charts } from "@/components/Charts";
+import { BacktestCharts } from "@/components/BacktestCharts";
+import { BacktestSettingsForm } from "@/components/BacktestSettingsForm";
+import { BenchmarkForm } from "@/components/BenchmarkForm";
+import { EstimatorSettingsForm } from "@/components/EstimatorSettingsForm";
 import { DownloadResultsButton } from "@/components/DownloadResultsButton";
+import { ExcludedTickersList } from "@/components/ExcludedTickersList";
+import { DataSourcesList } from "@/components/DataSourcesList";
+import { SyntheticDataAlert } from "@/components/SyntheticDataAlert";
+import { OptimizationProgressPanel } from "@/components/OptimizationProgressPanel";
 import { FilterSuggestionsDisplay } from "@/components/FilterSuggestionsDisplay"; // Import new component
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Loader2, AlertTriangle, Settings, BarChartHorizontalBig, SlidersHorizontal, FileText, TrendingUp, Palette, RotateCcw, Wand2 } from "lucide-react"; // Added Wand2
-import type { FilterCriteria, OptimizationMethod, OptimizationParams, OptimizationResult, OptimizationApiResponse, GetFilterSuggestionsOutput, SuggestedFilter } from "@/types/portfolio"; // Updated import
+import type { FilterCriteria, OptimizationMethod, OptimizationParams, OptimizationResult, OptimizationApiResponse, GetFilterSuggestionsOutput, SuggestedFilter, BlackLittermanView, MonteCarloSettings, CvarSettings, ObjectiveSettings, PortfolioConstraints, RiskFreeRateSettings, BacktestSettings, BenchmarkSettings, EstimatorSettings, ExcludedTicker, TickerDataSource } from "@/types/portfolio"; // Updated import
 import { optimizePortfolio, uploadTickers } from "@/lib/api";
+import { DEFAULT_SIMULATIONS } from "@/lib/optimizers/monte-carlo";
+import { DEFAULT_CVAR_CONFIDENCE } from "@/lib/optimizers/cvar";
+import { DEFAULT_OBJECTIVE_SETTINGS } from "@/lib/objectives";
+import { MEAN_VARIANCE_METHODS } from "@/types/portfolio";
+import { hasConstraints, resolveGroupMembers } from "@/lib/constraints";
+import { DEFAULT_RISK_FREE_RATE } from "@/lib/risk-free-rate";
+import { DEFAULT_BACKTEST_SETTINGS } from "@/lib/backtest";
+import { DEFAULT_ESTIMATOR_SETTINGS } from "@/lib/estimators";
 import { useToast } from "@/hooks/use-toast";
+import { useOptimizationProgress } from "@/hooks/use-optimization-progress";
 import { getFilterSuggestions } from "@/ai/flows/get-filter-suggestions"; // Import AI flow
 
 const initialFiltersState: FilterCriteria = {
@@ -27,17 +50,54 @@ const initialFiltersState: FilterCriteria = {
 
 const initialSelectedMethodState: OptimizationMethod = "Modern Portfolio Theory";
 
+const initialMonteCarloSettings: MonteCarloSettings = {
+  simulations: DEFAULT_SIMULATIONS,
+};
+
+const initialCvarSettings: CvarSettings = {
+  confidence: DEFAULT_CVAR_CONFIDENCE,
+};
+
+const initialConstraints: PortfolioConstraints = {
+  assetBounds: [],
+  groups: [],
+};
+
+const initialRiskFreeRate: RiskFreeRateSettings = {
+  source: "constant",
+  rate: DEFAULT_RISK_FREE_RATE,
+};
+
+const initialBenchmark: BenchmarkSettings = {
+  source: "ticker",
+  ticker: "",
+};
+
 export default function PortfolioPilotPage() {
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [filters, setFilters] = useState<FilterCriteria>(initialFiltersState);
   const [selectedMethod, setSelectedMethod] = useState<OptimizationMethod>(initialSelectedMethodState);
+  const [compareAll, setCompareAll] = useState(false); // Also run every other method on the same data
+  const [objective, setObjective] = useState<ObjectiveSettings>(DEFAULT_OBJECTIVE_SETTINGS); // Frontier point for the mean-variance methods
+  const [views, setViews] = useState<BlackLittermanView[]>([]); // Black-Litterman investor views
+  const [monteCarloSettings, setMonteCarloSettings] = useState<MonteCarloSettings>(initialMonteCarloSettings);
+  const [cvarSettings, setCvarSettings] = useState<CvarSettings>(initialCvarSettings); // Confidence level and optional target return
+  const [constraints, setConstraints] = useState<PortfolioConstraints>(initialConstraints); // Weight bounds, group caps and holdings limit
+  const [riskFreeRate, setRiskFreeRate] = useState<RiskFreeRateSettings>(initialRiskFreeRate); // Constant rate or T-bill series
+  const [benchmark, setBenchmark] = useState<BenchmarkSettings>(initialBenchmark); // Ticker or weights file to compare against
+  const [backtestSettings, setBacktestSettings] = useState<BacktestSettings>(DEFAULT_BACKTEST_SETTINGS); // Rebalancing and cost assumptions
+  const [estimatorSettings, setEstimatorSettings] = useState<EstimatorSettings>(DEFAULT_ESTIMATOR_SETTINGS); // Covariance and expected-return estimators
   const [optimizationResults, setOptimizationResults] = useState<OptimizationResult | null>(null);
+  const [excludedTickers, setExcludedTickers] = useState<ExcludedTicker[]>([]); // Tickers removed by screening
+  const [dataSources, setDataSources] = useState<TickerDataSource[]>([]); // Provenance and coverage of each price series
+  const [placeholderResults, setPlaceholderResults] = useState(false); // Results are random placeholders (no data fetched)
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [filterSuggestions, setFilterSuggestions] = useState<GetFilterSuggestionsOutput | null>(null); // State for AI suggestions
   const [isSuggestingFilters, setIsSuggestingFilters] = useState(false); // Loading state for AI suggestions
   const [suggestionsError, setSuggestionsError] = useState<string | null>(null); // Error state for AI suggestions
   const { toast } = useToast();
+  const { progress, handleProgressEvent, resetProgress } = useOptimizationProgress(); // Streamed fetch/optimizer progress
 
   const [isClient, setIsClient] = useState(false);
   useEffect(() => {
@@ -84,6 +144,10 @@ export default function PortfolioPilotPage() {
     setIsLoading(true);
     setError(null);
     setOptimizationResults(null);
+    setExcludedTickers([]);
+    setDataSources([]);
+    setPlaceholderResults(false);
+    resetProgress();
 
     try {
       const uploadResponse = await uploadTickers(uploadedFiles);
@@ -109,14 +173,49 @@ export default function PortfolioPilotPage() {
          return;
       }
 
+      if (uploadResponse.malformedRows.length > 0) {
+        const preview = uploadResponse.malformedRows
+          .slice(0, 5)
+          .map(row => `${row.fileName}:${row.line} ${row.reason}`)
+          .join(' ');
+        const remaining = uploadResponse.malformedRows.length - 5;
+        toast({
+          title: "Malformed Rows Skipped",
+          description: remaining > 0 ? `${preview} (+${remaining} more)` : preview,
+          variant: "destructive",
+          duration: 9000,
+        });
+      }
+
+      if (uploadResponse.tickers.length === 0) {
+        setError("No ticker symbols were found in the uploaded files. Make sure they contain a ticker/symbol column or one symbol per line.");
+        setIsLoading(false);
+        return;
+      }
 
       const params: OptimizationParams = {
         uploadedFileNames: uploadResponse.processedFileNames,
+        tickers: uploadResponse.tickers.map(row => row.ticker),
         filters,
         method: selectedMethod,
+        compareAll,
+        views: compareAll || selectedMethod === "Black-Litterman" ? views : undefined,
+        objective: compareAll || MEAN_VARIANCE_METHODS.includes(selectedMethod) ? objective : undefined,
+        monteCarlo: compareAll || selectedMethod === "Monte Carlo Simulation" ? monteCarloSettings : undefined,
+        cvar: compareAll || selectedMethod === "Minimum CVaR" ? cvarSettings : undefined,
+        constraints: (compareAll || selectedMethod !== "Equal Weighting") && hasConstraints(constraints)
+          ? resolveGroupMembers(constraints, uploadResponse.tickers)
+          : undefined,
+        riskFreeRate,
+        benchmark: benchmark.source === "portfolio" || benchmark.ticker.trim() ? benchmark : undefined,
+        backtest: backtestSettings,
+        estimators: estimatorSettings,
       };
-      const apiResponse: OptimizationApiResponse = await optimizePortfolio(params);
+      const apiResponse: OptimizationApiResponse = await optimizePortfolio(params, handleProgressEvent);
       setOptimizationResults(apiResponse.results);
+      setExcludedTickers(apiResponse.excludedTickers);
+      setDataSources(apiResponse.dataSources);
+      setPlaceholderResults(apiResponse.placeholderResults);
       toast({
         title: "Optimization Successful",
         description: `Portfolio optimized using ${selectedMethod}.`,
@@ -125,7 +224,7 @@ export default function PortfolioPilotPage() {
 
       if (apiResponse.warning) {
           toast({
-              title: "Rate Limit Warning",
+              title: "Optimization Warning",
               description: apiResponse.warning,
               variant: "destructive",
               duration: 9000,
@@ -184,7 +283,20 @@ export default function PortfolioPilotPage() {
     setUploadedFiles([]);
     setFilters(initialFiltersState);
     setSelectedMethod(initialSelectedMethodState);
+    setCompareAll(false);
+    setObjective(DEFAULT_OBJECTIVE_SETTINGS);
+    setViews([]);
+    setMonteCarloSettings(initialMonteCarloSettings);
+    setCvarSettings(initialCvarSettings);
+    setConstraints(initialConstraints);
+    setRiskFreeRate(initialRiskFreeRate);
+    setBenchmark(initialBenchmark);
+    setBacktestSettings(DEFAULT_BACKTEST_SETTINGS);
+    setEstimatorSettings(DEFAULT_ESTIMATOR_SETTINGS);
     setOptimizationResults(null);
+    setExcludedTickers([]);
+    setDataSources([]);
+    setPlaceholderResults(false);
     setError(null);
     setFilterSuggestions(null); // Clear suggestions on reset
     setSuggestionsError(null);
@@ -290,8 +402,31 @@ export default function PortfolioPilotPage() {
                 </CardTitle>
                 <CardDescription>Choose your optimization model.</CardDescription>
               </CardHeader>
-              <CardContent className="pt-6">
-                <OptimizerSelect selectedMethod={selectedMethod} onMethodChange={handleMethodChange} />
+              <CardContent className="pt-6 space-y-6">
+                <OptimizerSelect
+                  selectedMethod={selectedMethod}
+                  onMethodChange={handleMethodChange}
+                  compareAll={compareAll}
+                  onCompareAllChange={setCompareAll}
+                  objective={objective}
+                  onObjectiveChange={setObjective}
+                />
+                <RiskFreeRateForm settings={riskFreeRate} onSettingsChange={setRiskFreeRate} />
+                <BenchmarkForm settings={benchmark} onSettingsChange={setBenchmark} />
+                <BacktestSettingsForm settings={backtestSettings} onSettingsChange={setBacktestSettings} />
+                {(compareAll || selectedMethod === "Black-Litterman") && (
+                  <BlackLittermanViewsEditor views={views} onViewsChange={setViews} />
+                )}
+                {(compareAll || selectedMethod === "Monte Carlo Simulation") && (
+                  <MonteCarloSettingsForm settings={monteCarloSettings} onSettingsChange={setMonteCarloSettings} />
+                )}
+                {(compareAll || selectedMethod === "Minimum CVaR") && (
+                  <CvarSettingsForm settings={cvarSettings} onSettingsChange={setCvarSettings} />
+                )}
+                {(compareAll || selectedMethod !== "Equal Weighting") && (
+                  <ConstraintsEditor constraints={constraints} onConstraintsChange={setConstraints} />
+                )}
+                <EstimatorSettingsForm settings={estimatorSettings} onSettingsChange={setEstimatorSettings} />
               </CardContent>
             </Card>
 
@@ -322,13 +457,7 @@ export default function PortfolioPilotPage() {
           </div>
 
           <div className="lg:col-span-2 space-y-8">
-            {isLoading && (
-              <Card className="shadow-xl flex flex-col items-center justify-center p-10 min-h-[300px] bg-card">
-                <Loader2 className="h-16 w-16 animate-spin text-primary mb-4" />
-                <p className="text-lg font-medium text-foreground">Optimizing your portfolio...</p>
-                <p className="text-sm text-muted-foreground">This may take a moment.</p>
-              </Card>
-            )}
+            {isLoading && <OptimizationProgressPanel progress={progress} />}
 
             {error && !isLoading && (
               <Card className="shadow-xl border-destructive bg-destructive/10 p-6">
@@ -357,9 +486,18 @@ export default function PortfolioPilotPage() {
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="pt-6 space-y-6">
+                    <SyntheticDataAlert
+                      allocations={optimizationResults.allocations}
+                      dataSources={dataSources}
+                      placeholderResults={placeholderResults}
+                    />
                     <ResultsTable results={optimizationResults} />
+                    <MethodComparisonTable results={optimizationResults} />
+                    <ExcludedTickersList excludedTickers={excludedTickers} />
+                    <DataSourcesList dataSources={dataSources} />
                     <Separator className="my-6"/>
                     <Charts results={optimizationResults} />
+                    <BacktestCharts results={optimizationResults} />
                   </CardContent>
                   <CardFooter className="flex justify-end p-6 bg-card-foreground/5">
                      <DownloadResultsButton
@@ -0,0 +1,209 @@
+// src/components/BacktestCharts.tsx
+"use client";
+
+import type * as React from "react";
+import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { OptimizationResult } from "@/types/portfolio";
+import { describeBacktestSettings } from "@/lib/backtest";
+import { COLORS } from "@/components/Charts";
+import { History, LineChartIcon, TrendingDown, CalendarRange, Layers } from "lucide-react";
+
+interface BacktestChartsProps {
+  results: OptimizationResult | null;
+}
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--popover))',
+  borderColor: 'hsl(var(--border))',
+  borderRadius: 'var(--radius)',
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+export function BacktestCharts({ results }: BacktestChartsProps) {
+  const backtest = results?.backtest;
+  if (!backtest || backtest.equityCurve.length === 0) {
+    return null;
+  }
+
+  const { walkForward } = backtest;
+  // One row per re-optimization, keyed by ticker for the stacked areas
+  const weightHistory = walkForward?.targets.map(target => ({
+    date: target.date,
+    ...Object.fromEntries(walkForward.assets.map((asset, i) => [asset, target.weights[i]])),
+  }));
+
+  const summary: [string, string][] = [
+    ["Final Value", formatCurrency(backtest.finalValue)],
+    ["Total Return", `${backtest.totalReturn.toFixed(2)}%`],
+    ["Annualized Return", `${backtest.annualizedReturn.toFixed(2)}%`],
+    ["Volatility", `${backtest.volatility.toFixed(2)}%`],
+    ["Max Drawdown", `-${backtest.maxDrawdown.toFixed(2)}%`],
+    ["Rebalances", backtest.rebalances.toLocaleString()],
+    ["Turnover", `${backtest.turnover.toFixed(2)}%`],
+    ["Transaction Costs", formatCurrency(backtest.transactionCosts)],
+  ];
+  if (walkForward && backtest.rebalances > 0) {
+    summary.push(["Avg. Turnover per Rebalance", `${(backtest.turnover / backtest.rebalances).toFixed(2)}%`]);
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center text-xl">
+            <History className="mr-2 h-6 w-6 text-primary" />
+            {walkForward ? "Walk-Forward Backtest (Out-of-Sample)" : "Historical Backtest"}
+          </CardTitle>
+          <CardDescription>
+            {formatCurrency(backtest.initialValue)} invested in{" "}
+            {walkForward
+              ? `weights re-optimized on the trailing ${walkForward.estimationWindow} periods at each rebalance,`
+              : "the optimized weights"}{" "}from{" "}
+            {backtest.equityCurve[0].date} to {backtest.equityCurve[backtest.equityCurve.length - 1].date}.{" "}
+            {describeBacktestSettings(backtest.settings)}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-4">
+            {summary.map(([label, value]) => (
+              <div key={label} className="flex flex-col p-3 bg-secondary/50 rounded-md">
+                <dt className="text-sm font-medium text-muted-foreground">{label}</dt>
+                <dd className="mt-1 text-lg font-semibold text-primary">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center text-xl">
+              <LineChartIcon className="mr-2 h-6 w-6 text-primary" />
+              Equity Curve
+            </CardTitle>
+            <CardDescription>Portfolio value after transaction costs.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={backtest.equityCurve} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" stroke="hsl(var(--foreground))" minTickGap={40} />
+                <YAxis stroke="hsl(var(--foreground))" domain={['auto', 'auto']} tickFormatter={formatCurrency} width={80} />
+                <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => [formatCurrency(value), 'Value']} />
+                <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center text-xl">
+              <TrendingDown className="mr-2 h-6 w-6 text-primary" />
+              Drawdown
+            </CardTitle>
+            <CardDescription>Decline from the running peak value.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <AreaChart data={backtest.equityCurve} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" stroke="hsl(var(--foreground))" minTickGap={40} />
+                <YAxis stroke="hsl(var(--foreground))" unit="%" domain={['dataMin', 0]} />
+                <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => [`${value.toFixed(2)}%`, 'Drawdown']} />
+                <Area
+                  type="monotone"
+                  dataKey="drawdown"
+                  stroke="hsl(var(--destructive))"
+                  fill="hsl(var(--destructive))"
+                  fillOpacity={0.3}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      {walkForward && weightHistory && weightHistory.length > 0 && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center text-xl">
+              <Layers className="mr-2 h-6 w-6 text-primary" />
+              Target Weights Over Time
+            </CardTitle>
+            <CardDescription>
+              Weights chosen at each of the {walkForward.targets.length} re-optimizations. Stable bands mean low turnover.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <AreaChart data={weightHistory} stackOffset="sign" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" stroke="hsl(var(--foreground))" minTickGap={40} />
+                <YAxis stroke="hsl(var(--foreground))" unit="%" />
+                <Tooltip contentStyle={tooltipStyle} formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name]} />
+                <Legend verticalAlign="top" height={24} />
+                {walkForward.assets.map((asset, index) => (
+                  <Area
+                    key={asset}
+                    type="stepAfter"
+                    dataKey={asset}
+                    stackId="weights"
+                    stroke={COLORS[index % COLORS.length]}
+                    fill={COLORS[index % COLORS.length]}
+                    fillOpacity={0.6}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg">
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center text-xl">
+            <CalendarRange className="mr-2 h-6 w-6 text-primary" />
+            Yearly Returns
+          </CardTitle>
+          <CardDescription>Calendar-year returns of the backtested portfolio.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead className="text-right">Return</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {backtest.yearlyReturns.map(item => (
+                <TableRow key={item.year}>
+                  <TableCell className="font-medium">
+                    {item.year}
+                    {item.partial && <span className="ml-2 text-xs text-muted-foreground">(partial year)</span>}
+                  </TableCell>
+                  <TableCell className={`text-right ${item.return < 0 ? "text-destructive" : ""}`}>
+                    {item.return.toFixed(2)}%
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// src/components/BacktestSettingsForm.tsx
+"use client";
+
+import type * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { BacktestSettings, RebalanceFrequency } from "@/types/portfolio";
+import { MIN_ESTIMATION_WINDOW } from "@/lib/backtest";
+
+interface BacktestSettingsFormProps {
+  settings: BacktestSettings;
+  onSettingsChange: (settings: BacktestSettings) => void;
+}
+
+const REBALANCE_OPTIONS: { value: RebalanceFrequency; label: string }[] = [
+  { value: "none", label: "Never (buy and hold)" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "threshold", label: "When weights drift" },
+];
+
+export function BacktestSettingsForm({ settings, onSettingsChange }: BacktestSettingsFormProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="backtest-rebalance" className="text-sm font-medium">
+        Backtest Rebalancing
+      </Label>
+      <div className="grid grid-cols-2 gap-4">
+        <Select
+          value={settings.rebalance}
+          onValueChange={(value) => onSettingsChange({ ...settings, rebalance: value as RebalanceFrequency })}
+        >
+          <SelectTrigger id="backtest-rebalance">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REBALANCE_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={0}
+          step={1}
+          aria-label="Transaction cost (basis points)"
+          value={Number.isFinite(settings.transactionCost) ? settings.transactionCost : ""}
+          onChange={(e) => onSettingsChange({ ...settings, transactionCost: e.target.value === "" ? 0 : Number(e.target.value) })}
+        />
+      </div>
+      {settings.rebalance === "threshold" && (
+        <div className="space-y-1">
+          <Label htmlFor="backtest-drift" className="text-xs text-muted-foreground">
+            Drift Threshold (percentage points from the target weight)
+          </Label>
+          <Input
+            id="backtest-drift"
+            type="number"
+            min={0}
+            step={0.5}
+            value={Number.isFinite(settings.driftThreshold) ? settings.driftThreshold : ""}
+            onChange={(e) => onSettingsChange({ ...settings, driftThreshold: e.target.value === "" ? 0 : Number(e.target.value) })}
+          />
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        How the backtest trades the portfolio back to its target weights, and the transaction cost in basis points of the value traded.
+      </p>
+      <div className="flex items-center justify-between pt-2">
+        <Label htmlFor="backtest-walk-forward" className="text-sm font-medium">Walk-Forward Re-Optimization</Label>
+        <Switch
+          id="backtest-walk-forward"
+          checked={settings.walkForward}
+          onCheckedChange={(checked) => onSettingsChange({ ...settings, walkForward: checked })}
+        />
+      </div>
+      {settings.walkForward && (
+        <div className="space-y-1">
+          <Label htmlFor="backtest-window" className="text-xs text-muted-foreground">
+            Estimation Window (return periods of the data interval)
+          </Label>
+          <Input
+            id="backtest-window"
+            type="number"
+            min={MIN_ESTIMATION_WINDOW}
+            step={1}
+            value={Number.isFinite(settings.estimationWindow) ? settings.estimationWindow : ""}
+            onChange={(e) => onSettingsChange({ ...settings, estimationWindow: e.target.value === "" ? 0 : Number(e.target.value) })}
+          />
+          <p className="text-xs text-muted-foreground">
+            At every rebalance the method is re-run on the trailing window only, so the backtest is out-of-sample. It starts after the first window.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// src/components/BenchmarkForm.tsx
+"use client";
+
+import type * as React from "react";
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { BenchmarkSettings } from "@/types/portfolio";
+import { parseBenchmarkWeights } from "@/lib/benchmark";
+
+interface BenchmarkFormProps {
+  settings: BenchmarkSettings;
+  onSettingsChange: (settings: BenchmarkSettings) => void;
+}
+
+export function BenchmarkForm({ settings, onSettingsChange }: BenchmarkFormProps) {
+  // The weights file option stays selected while no file has been loaded yet
+  const [source, setSource] = useState<BenchmarkSettings["source"]>(settings.source);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [skippedRows, setSkippedRows] = useState(0);
+
+  // Follow settings replaced from outside (e.g. a form reset)
+  useEffect(() => {
+    setSource(settings.source);
+  }, [settings]);
+
+  const handleSourceChange = (value: BenchmarkSettings["source"]) => {
+    setSource(value);
+    setFileError(null);
+    if (value === "ticker" && settings.source !== "ticker") {
+      onSettingsChange({ source: "ticker", ticker: "" });
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const { weights, skippedRows } = parseBenchmarkWeights(await file.text());
+      setFileError(null);
+      setSkippedRows(skippedRows);
+      onSettingsChange({ source: "portfolio", fileName: file.name, weights });
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const loadedPortfolio = settings.source === "portfolio" ? settings : null;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="benchmark-source" className="text-sm font-medium">
+        Benchmark (Optional)
+      </Label>
+      <div className="grid grid-cols-2 gap-4">
+        <Select value={source} onValueChange={(value) => handleSourceChange(value as BenchmarkSettings["source"])}>
+          <SelectTrigger id="benchmark-source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ticker">Ticker</SelectItem>
+            <SelectItem value="portfolio">Weights file</SelectItem>
+          </SelectContent>
+        </Select>
+        {source === "ticker" ? (
+          <Input
+            placeholder="e.g. SPY"
+            aria-label="Benchmark ticker"
+            value={settings.source === "ticker" ? settings.ticker : ""}
+            onChange={(e) => onSettingsChange({ source: "ticker", ticker: e.target.value.toUpperCase() })}
+          />
+        ) : (
+          <Input
+            type="file"
+            accept=".csv,.txt"
+            aria-label="Benchmark weights file"
+            onChange={handleFileChange}
+          />
+        )}
+      </div>
+      {source === "portfolio" && fileError && (
+        <p className="text-xs text-destructive">{fileError}</p>
+      )}
+      {source === "portfolio" && !fileError && loadedPortfolio && (
+        <p className="text-xs text-muted-foreground">
+          {loadedPortfolio.fileName}:{" "}
+          {loadedPortfolio.weights.map(({ asset, weight }) => `${asset} ${weight.toFixed(1)}%`).join(", ")}
+          {skippedRows > 0 ? ` (${skippedRows} rows without a ticker or weight skipped)` : ""}.
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {source === "ticker"
+          ? "Ticker the portfolio is compared against (beta, alpha, tracking error, capture ratios)."
+          : "CSV with a ticker column and a weight column. Weights are rescaled to sum to 100% and held constant."}
+      </p>
+    </div>
+  );
+}
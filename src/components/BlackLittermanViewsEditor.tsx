@@ -0,0 +1,135 @@
+// src/components/BlackLittermanViewsEditor.tsx
+"use client";
+
+import type * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { BlackLittermanView } from "@/types/portfolio";
+
+interface BlackLittermanViewsEditorProps {
+  views: BlackLittermanView[];
+  onViewsChange: (views: BlackLittermanView[]) => void;
+}
+
+const newView: BlackLittermanView = {
+  type: "absolute",
+  asset: "",
+  expectedReturn: 8,
+  confidence: 50,
+};
+
+export function BlackLittermanViewsEditor({ views, onViewsChange }: BlackLittermanViewsEditorProps) {
+  const updateView = (index: number, changes: Partial<BlackLittermanView>) => {
+    onViewsChange(views.map((view, i) => (i === index ? { ...view, ...changes } : view)));
+  };
+
+  const removeView = (index: number) => {
+    onViewsChange(views.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Investor Views</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onViewsChange([...views, { ...newView }])}
+          aria-label="Add a Black-Litterman view"
+        >
+          <Plus className="mr-1 h-4 w-4" /> Add View
+        </Button>
+      </div>
+
+      {views.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No views entered. Without views, Black-Litterman uses market-implied equilibrium returns.
+        </p>
+      )}
+
+      {views.map((view, index) => (
+        <div key={index} className="space-y-3 rounded-md border border-border p-3 bg-secondary/30">
+          <div className="flex items-center gap-2">
+            <Select
+              value={view.type}
+              onValueChange={(value) => updateView(index, {
+                type: value as BlackLittermanView["type"],
+                relativeTo: value === "relative" ? view.relativeTo ?? "" : undefined,
+              })}
+            >
+              <SelectTrigger className="w-[130px]" aria-label="View type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="absolute">Absolute</SelectItem>
+                <SelectItem value="relative">Relative</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Ticker"
+              value={view.asset}
+              onChange={(e) => updateView(index, { asset: e.target.value.toUpperCase() })}
+              aria-label="View asset"
+            />
+            {view.type === "relative" && (
+              <>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">vs</span>
+                <Input
+                  placeholder="Ticker"
+                  value={view.relativeTo ?? ""}
+                  onChange={(e) => updateView(index, { relativeTo: e.target.value.toUpperCase() })}
+                  aria-label="Underperforming asset"
+                />
+              </>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeView(index)}
+              aria-label="Remove view"
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 items-center">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">
+                {view.type === "relative" ? "Outperformance (% / yr)" : "Expected Return (% / yr)"}
+              </Label>
+              <Input
+                type="number"
+                step="0.5"
+                value={Number.isFinite(view.expectedReturn) ? view.expectedReturn : ""}
+                onChange={(e) => updateView(index, { expectedReturn: e.target.value === "" ? 0 : Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Confidence: {view.confidence}%</Label>
+              <Slider
+                min={0}
+                max={100}
+                step={5}
+                value={[view.confidence]}
+                onValueChange={([value]) => updateView(index, { confidence: value })}
+                aria-label="View confidence"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,17 +2,18 @@
 "use client";
 
 import type * as React from "react";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ScatterChart, Scatter, ZAxis } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ScatterChart, Scatter, ZAxis, ReferenceLine, LineChart, Line, LabelList } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import type { AllocationChartData, RiskReturnChartData, OptimizationResult } from "@/types/portfolio";
-import { PieChartIcon, TrendingUpIcon } from "lucide-react"; // Using Lucide icons for consistency
+import type { AllocationChartData, RiskReturnChartData, OptimizationResult, HierarchicalClustering } from "@/types/portfolio";
+import { describeObjective } from "@/lib/objectives";
+import { PieChartIcon, TrendingUpIcon, Scale, Network } from "lucide-react"; // Using Lucide icons for consistency
 
 interface ChartsProps {
   results: OptimizationResult | null;
 }
 
-// Helper to generate distinct colors for the bar chart
-const COLORS = [
+// Helper to generate distinct colors for the bar chart (also used by the backtest charts)
+export const COLORS = [
   'hsl(var(--chart-1))', 
   'hsl(var(--chart-2))',
   'hsl(var(--chart-3))', 
@@ -21,6 +22,85 @@ const COLORS = [
   'hsl(var(--primary))', // Deep Teal from theme
   'hsl(var(--accent))',   // Bright Green from theme
 ];
+const SHORT_COLOR = 'hsl(var(--destructive))';
+
+// Dendrogram layout (SVG user units; the chart scales to the card width)
+const DENDROGRAM_WIDTH = 600;
+const DENDROGRAM_HEIGHT = 300;
+const DENDROGRAM_MARGIN = { top: 10, right: 10, bottom: 60, left: 40 };
+const MAX_LEAF_LABELS = 60; // Above this the leaf labels would overlap and are left to the tooltips
+
+/**
+ * Dendrogram of a hierarchical clustering: leaves in quasi-diagonal order along the
+ * bottom, each merge drawn as a bracket at the correlation distance it happened at.
+ */
+function Dendrogram({ clustering }: { clustering: HierarchicalClustering }) {
+  const { assets, order, merges } = clustering;
+  const n = assets.length;
+  const plotWidth = DENDROGRAM_WIDTH - DENDROGRAM_MARGIN.left - DENDROGRAM_MARGIN.right;
+  const plotHeight = DENDROGRAM_HEIGHT - DENDROGRAM_MARGIN.top - DENDROGRAM_MARGIN.bottom;
+  const maxDistance = Math.max(...merges.map(merge => merge.distance), 1e-6);
+  const baseline = DENDROGRAM_MARGIN.top + plotHeight;
+  const y = (distance: number) => baseline - (distance / maxDistance) * plotHeight;
+
+  // Horizontal position and height of every cluster id (leaves first, then merges)
+  const xs: number[] = new Array(n + merges.length);
+  const heights: number[] = new Array(n + merges.length).fill(0);
+  order.forEach((leaf, position) => {
+    xs[leaf] = DENDROGRAM_MARGIN.left + ((position + 0.5) / n) * plotWidth;
+  });
+  merges.forEach((merge, k) => {
+    xs[n + k] = (xs[merge.left] + xs[merge.right]) / 2;
+    heights[n + k] = merge.distance;
+  });
+  const members = (id: number): string[] =>
+    id < n ? [assets[id]] : [...members(merges[id - n].left), ...members(merges[id - n].right)];
+  const showLabels = n <= MAX_LEAF_LABELS;
+
+  return (
+    <svg viewBox={`0 0 ${DENDROGRAM_WIDTH} ${DENDROGRAM_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Asset clustering dendrogram">
+      {[0, 0.5, 1].map(fraction => (
+        <g key={fraction}>
+          <line
+            x1={DENDROGRAM_MARGIN.left}
+            x2={DENDROGRAM_WIDTH - DENDROGRAM_MARGIN.right}
+            y1={y(fraction * maxDistance)}
+            y2={y(fraction * maxDistance)}
+            stroke="hsl(var(--border))"
+            strokeDasharray="3 3"
+          />
+          <text x={DENDROGRAM_MARGIN.left - 6} y={y(fraction * maxDistance)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="hsl(var(--foreground))">
+            {(fraction * maxDistance).toFixed(2)}
+          </text>
+        </g>
+      ))}
+      {merges.map((merge, k) => (
+        <path
+          key={k}
+          d={`M ${xs[merge.left]} ${y(heights[merge.left])} V ${y(merge.distance)} H ${xs[merge.right]} V ${y(heights[merge.right])}`}
+          fill="none"
+          stroke="hsl(var(--primary))"
+          strokeWidth={1.5}
+        >
+          <title>{`${members(n + k).join(", ")} joined at distance ${merge.distance.toFixed(3)}`}</title>
+        </path>
+      ))}
+      {showLabels && order.map(leaf => (
+        <text
+          key={leaf}
+          x={xs[leaf]}
+          y={baseline + 8}
+          transform={`rotate(-45 ${xs[leaf]} ${baseline + 8})`}
+          textAnchor="end"
+          fontSize={10}
+          fill="hsl(var(--foreground))"
+        >
+          {assets[leaf]}
+        </text>
+      ))}
+    </svg>
+  );
+}
 
 export function Charts({ results }: ChartsProps) {
   if (!results) {
@@ -30,10 +110,32 @@ export function Charts({ results }: ChartsProps) {
   const allocationData: AllocationChartData[] = results.allocations.map((alloc, index) => ({
     name: alloc.asset,
     value: alloc.allocation,
-    fill: COLORS[index % COLORS.length],
+    fill: alloc.allocation < 0 ? SHORT_COLOR : COLORS[index % COLORS.length],
   }));
+  const hasShortPositions = allocationData.some(item => item.value < 0);
 
   const riskReturnData: RiskReturnChartData[] | undefined = results.efficientFrontierData;
+  const frontierCurve: RiskReturnChartData[] | undefined = results.efficientFrontierCurve;
+  const capitalMarketLine = results.capitalMarketLine;
+  const frontierDescription = results.monteCarlo
+    ? `${results.monteCarlo.simulations.toLocaleString()} simulated portfolios (seed ${results.monteCarlo.seed}) and their efficient frontier.`
+    : results.objective
+      ? `The efficient frontier traced over target returns${capitalMarketLine ? `, with the capital market line from the ${capitalMarketLine.riskFreeRate.toFixed(2)}% risk-free rate through the tangency portfolio (Sharpe ${capitalMarketLine.sharpeRatio.toFixed(2)})` : ""}. The star marks the selected portfolio (${describeObjective(results.objective)}).`
+      : "Portfolio risk against expected return (Monte Carlo).";
+  // The optimized portfolio, highlighted on the frontier
+  const selectedPoint = [{ risk: results.metrics.risk, return: results.metrics.expectedReturn }];
+  // One labeled point per method in compare-all mode, each under the risk model its metrics use
+  const methodPoints = results.methodComparison?.flatMap(({ method, metrics }) =>
+    metrics ? [{ method, risk: metrics.risk, return: metrics.expectedReturn }] : []
+  );
+  const hasMethodPoints = !!methodPoints && methodPoints.length > 0;
+  const methodPointsCaption = results.methodComparison?.some(entry => entry.metrics && entry.riskModel === 'Black-Litterman posterior')
+    ? "Labeled points show each method's portfolio under the estimated risk model; Black-Litterman's is under its posterior returns."
+    : "Labeled points show each method's portfolio under the estimated risk model.";
+  // Monte Carlo plots its simulated portfolios; mean-variance methods only their frontier line
+  const hasFrontier = (!!riskReturnData && riskReturnData.length > 0) || (!!frontierCurve && frontierCurve.length > 0);
+  const comparison = results.benchmarkComparison;
+  const clustering = results.clustering;
 
   return (
     <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2">
@@ -44,13 +146,17 @@ export function Charts({ results }: ChartsProps) {
               <PieChartIcon className="mr-2 h-6 w-6 text-primary" />
               Allocation Breakdown
             </CardTitle>
-            <CardDescription>Visual representation of asset allocations.</CardDescription>
+            <CardDescription>
+              {hasShortPositions
+                ? "Visual representation of asset allocations. Short positions extend left of zero."
+                : "Visual representation of asset allocations."}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
               <BarChart data={allocationData} layout="vertical" margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis type="number" stroke="hsl(var(--foreground))" unit="%" />
+                <XAxis type="number" stroke="hsl(var(--foreground))" unit="%" domain={hasShortPositions ? ['dataMin', 'auto'] : [0, 'auto']} />
                 <YAxis dataKey="name" type="category" stroke="hsl(var(--foreground))" width={80} />
                 <Tooltip
                   cursor={{ fill: 'hsl(var(--muted))' }}
@@ -60,6 +166,8 @@ export function Charts({ results }: ChartsProps) {
                     borderRadius: 'var(--radius)',
                   }}
                 />
+                {hasShortPositions && <ReferenceLine x={0} stroke="hsl(var(--foreground))" />}
+                {/* Rounded corners mirror onto the outer (left) end of negative bars */}
                 <Bar dataKey="value" name="Allocation" barSize={20} radius={[0, 4, 4, 0]} />
               </BarChart>
             </ResponsiveContainer>
@@ -67,14 +175,17 @@ export function Charts({ results }: ChartsProps) {
         </Card>
       )}
 
-      {riskReturnData && riskReturnData.length > 0 && (
+      {(hasFrontier || hasMethodPoints) && (
         <Card className="shadow-lg">
           <CardHeader>
             <CardTitle className="flex items-center text-xl">
               <TrendingUpIcon className="mr-2 h-6 w-6 text-primary" />
               Efficient Frontier / Risk vs. Return
             </CardTitle>
-            <CardDescription>Portfolio risk against expected return (Monte Carlo).</CardDescription>
+            <CardDescription>
+              {hasFrontier ? frontierDescription : ""}
+              {hasMethodPoints ? `${hasFrontier ? " " : ""}${methodPointsCaption}` : ""}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
@@ -106,12 +217,100 @@ export function Charts({ results }: ChartsProps) {
                   }}
                   formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name === 'return' ? 'Return' : 'Risk']}
                 />
-                <Scatter name="Portfolios" data={riskReturnData} fill="hsl(var(--primary))" shape="circle" />
+                {riskReturnData && riskReturnData.length > 0 && (
+                  <Scatter name="Portfolios" data={riskReturnData} fill="hsl(var(--primary))" shape="circle" />
+                )}
+                {frontierCurve && frontierCurve.length > 0 && (
+                  <Scatter
+                    name="Efficient Frontier"
+                    data={frontierCurve}
+                    fill="hsl(var(--accent))"
+                    line={{ stroke: 'hsl(var(--accent))', strokeWidth: 2 }}
+                    shape={() => <g />}
+                    legendType="line"
+                  />
+                )}
+                {capitalMarketLine && (
+                  <Scatter
+                    name="Capital Market Line"
+                    data={capitalMarketLine.line}
+                    fill="hsl(var(--chart-3))"
+                    line={{ stroke: 'hsl(var(--chart-3))', strokeWidth: 2, strokeDasharray: '5 5' }}
+                    shape={() => <g />}
+                    legendType="line"
+                  />
+                )}
+                {capitalMarketLine && (
+                  <Scatter name="Tangency Portfolio" data={[capitalMarketLine.tangency]} fill="hsl(var(--chart-3))" shape="triangle" />
+                )}
+                {hasFrontier && (
+                  <Scatter name="Selected Portfolio" data={selectedPoint} fill="hsl(var(--chart-4))" shape="star" />
+                )}
+                {hasMethodPoints && (
+                  <Scatter name="Methods" data={methodPoints} fill="hsl(var(--destructive))" shape="diamond">
+                    <LabelList dataKey="method" position="top" fill="hsl(var(--foreground))" fontSize={11} />
+                  </Scatter>
+                )}
+                <Legend verticalAlign="top" height={24} />
               </ScatterChart>
             </ResponsiveContainer>
           </CardContent>
         </Card>
       )}
+
+      {comparison && comparison.relativePerformance.length > 0 && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center text-xl">
+              <Scale className="mr-2 h-6 w-6 text-primary" />
+              Relative Performance
+            </CardTitle>
+            <CardDescription>
+              Growth of 100 in the portfolio and {comparison.benchmark}. The relative line rises while the portfolio outperforms.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={comparison.relativePerformance} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" stroke="hsl(var(--foreground))" minTickGap={40} />
+                <YAxis stroke="hsl(var(--foreground))" domain={['auto', 'auto']} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--popover))',
+                    borderColor: 'hsl(var(--border))',
+                    borderRadius: 'var(--radius)',
+                  }}
+                  formatter={(value: number, name: string) => [value.toFixed(2), name]}
+                />
+                <Legend verticalAlign="top" height={24} />
+                <ReferenceLine y={100} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />
+                <Line type="monotone" dataKey="portfolio" name="Portfolio" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="benchmark" name={comparison.benchmark} stroke="hsl(var(--chart-2))" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="relative" name="Relative" stroke="hsl(var(--accent))" strokeDasharray="4 2" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {clustering && clustering.merges.length > 0 && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center text-xl">
+              <Network className="mr-2 h-6 w-6 text-primary" />
+              Asset Clustering
+            </CardTitle>
+            <CardDescription>
+              Single-linkage clusters by correlation distance √((1 - ρ) / 2). Hierarchical Risk Parity splits weight between
+              neighbouring groups in this order, giving less to the riskier side.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Dendrogram clustering={clustering} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
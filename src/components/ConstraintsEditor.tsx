@@ -0,0 +1,212 @@
+// src/components/ConstraintsEditor.tsx
+"use client";
+
+import type * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+import type { AssetWeightBound, GroupConstraint, PortfolioConstraints } from "@/types/portfolio";
+import { DEFAULT_GROSS_EXPOSURE } from "@/lib/constraints";
+
+interface ConstraintsEditorProps {
+  constraints: PortfolioConstraints;
+  onConstraintsChange: (constraints: PortfolioConstraints) => void;
+}
+
+const newAssetBound: AssetWeightBound = { asset: "", min: 0, max: 25 };
+const newGroup: GroupConstraint = { name: "", assets: [], max: 40 };
+
+// Empty inputs leave the limit unset
+const parseOptionalNumber = (value: string): number | undefined => (value === "" ? undefined : Number(value));
+
+export function ConstraintsEditor({ constraints, onConstraintsChange }: ConstraintsEditorProps) {
+  const updateAssetBound = (index: number, changes: Partial<AssetWeightBound>) => {
+    onConstraintsChange({
+      ...constraints,
+      assetBounds: constraints.assetBounds.map((bound, i) => (i === index ? { ...bound, ...changes } : bound)),
+    });
+  };
+
+  const updateGroup = (index: number, changes: Partial<GroupConstraint>) => {
+    onConstraintsChange({
+      ...constraints,
+      groups: constraints.groups.map((group, i) => (i === index ? { ...group, ...changes } : group)),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="max-holdings" className="text-sm font-medium">Maximum Holdings</Label>
+        <Input
+          id="max-holdings"
+          type="number"
+          min={1}
+          step={1}
+          placeholder="No limit"
+          value={constraints.maxHoldings ?? ""}
+          onChange={(e) => onConstraintsChange({ ...constraints, maxHoldings: parseOptionalNumber(e.target.value) })}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="allow-short-selling" className="text-sm font-medium">Allow Short Selling</Label>
+          <Switch
+            id="allow-short-selling"
+            checked={!!constraints.allowShortSelling}
+            onCheckedChange={(checked) => onConstraintsChange({
+              ...constraints,
+              allowShortSelling: checked,
+              maxGrossExposure: checked ? constraints.maxGrossExposure ?? DEFAULT_GROSS_EXPOSURE : undefined,
+            })}
+          />
+        </div>
+        {constraints.allowShortSelling && (
+          <div className="space-y-1">
+            <Label htmlFor="max-gross-exposure" className="text-xs text-muted-foreground">
+              Gross Exposure Limit (%): long plus short, e.g. 160 for 130/30
+            </Label>
+            <Input
+              id="max-gross-exposure"
+              type="number"
+              min={100}
+              step={10}
+              value={constraints.maxGrossExposure ?? ""}
+              onChange={(e) => onConstraintsChange({ ...constraints, maxGrossExposure: parseOptionalNumber(e.target.value) })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Risk Parity and Hierarchical Risk Parity stay long-only. Enter a negative minimum weight to cap an asset's short position.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium">Asset Weight Limits</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onConstraintsChange({ ...constraints, assetBounds: [...constraints.assetBounds, { ...newAssetBound }] })}
+            aria-label="Add an asset weight limit"
+          >
+            <Plus className="mr-1 h-4 w-4" /> Add Limit
+          </Button>
+        </div>
+
+        {constraints.assetBounds.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            {constraints.allowShortSelling
+              ? "No asset limits entered. Every asset may hold any long or short weight within the gross exposure limit."
+              : "No asset limits entered. Every asset may hold between 0% and 100%."}
+          </p>
+        )}
+
+        {constraints.assetBounds.map((bound, index) => (
+          <div key={index} className="flex items-center gap-2 rounded-md border border-border p-3 bg-secondary/30">
+            <Input
+              placeholder="Ticker"
+              value={bound.asset}
+              onChange={(e) => updateAssetBound(index, { asset: e.target.value.toUpperCase() })}
+              aria-label="Limited asset"
+            />
+            <Input
+              type="number"
+              step="0.5"
+              placeholder="Min %"
+              value={bound.min ?? ""}
+              onChange={(e) => updateAssetBound(index, { min: parseOptionalNumber(e.target.value) })}
+              aria-label="Minimum weight (%)"
+            />
+            <Input
+              type="number"
+              step="0.5"
+              placeholder="Max %"
+              value={bound.max ?? ""}
+              onChange={(e) => updateAssetBound(index, { max: parseOptionalNumber(e.target.value) })}
+              aria-label="Maximum weight (%)"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onConstraintsChange({ ...constraints, assetBounds: constraints.assetBounds.filter((_, i) => i !== index) })}
+              aria-label="Remove asset limit"
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium">Sector / Group Caps</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onConstraintsChange({ ...constraints, groups: [...constraints.groups, { ...newGroup, assets: [] }] })}
+            aria-label="Add a group cap"
+          >
+            <Plus className="mr-1 h-4 w-4" /> Add Cap
+          </Button>
+        </div>
+
+        {constraints.groups.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No group caps entered. Leave a cap's tickers blank to use the sector column of the uploaded CSV files.
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Blank tickers match the group name against the sector, industry, group or tag column of the uploaded CSV files.
+          </p>
+        )}
+
+        {constraints.groups.map((group, index) => (
+          <div key={index} className="space-y-2 rounded-md border border-border p-3 bg-secondary/30">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Sector or tag"
+                value={group.name}
+                onChange={(e) => updateGroup(index, { name: e.target.value })}
+                aria-label="Group name"
+              />
+              <Input
+                type="number"
+                step="0.5"
+                placeholder="Max %"
+                value={Number.isFinite(group.max) ? group.max : ""}
+                onChange={(e) => updateGroup(index, { max: e.target.value === "" ? 0 : Number(e.target.value) })}
+                aria-label="Group cap (%)"
+                className="w-[110px]"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onConstraintsChange({ ...constraints, groups: constraints.groups.filter((_, i) => i !== index) })}
+                aria-label="Remove group cap"
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+            <Input
+              placeholder="Tickers, comma-separated (blank = sector column)"
+              value={group.assets.join(", ")}
+              onChange={(e) => updateGroup(index, {
+                // Empty entries are kept while typing and dropped when the constraints are resolved
+                assets: e.target.value === "" ? [] : e.target.value.toUpperCase().split(",").map(ticker => ticker.trim()),
+              })}
+              aria-label="Group tickers"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+// src/components/CvarSettingsForm.tsx
+"use client";
+
+import type * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CvarSettings } from "@/types/portfolio";
+import { MAX_CVAR_CONFIDENCE, MIN_CVAR_CONFIDENCE } from "@/lib/optimizers/cvar";
+
+interface CvarSettingsFormProps {
+  settings: CvarSettings;
+  onSettingsChange: (settings: CvarSettings) => void;
+}
+
+export function CvarSettingsForm({ settings, onSettingsChange }: CvarSettingsFormProps) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="cvar-confidence" className="text-sm font-medium">
+          CVaR Confidence (%)
+        </Label>
+        <Input
+          id="cvar-confidence"
+          type="number"
+          min={MIN_CVAR_CONFIDENCE}
+          max={MAX_CVAR_CONFIDENCE}
+          step={0.5}
+          value={settings.confidence}
+          onChange={(e) => onSettingsChange({ ...settings, confidence: Number(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="cvar-target-return" className="text-sm font-medium">
+          Target Return (%)
+        </Label>
+        <Input
+          id="cvar-target-return"
+          type="number"
+          step={0.5}
+          placeholder="None"
+          value={settings.targetReturn ?? ""}
+          onChange={(e) => onSettingsChange({ ...settings, targetReturn: e.target.value === "" ? undefined : Number(e.target.value) })}
+        />
+      </div>
+      <p className="col-span-2 text-xs text-muted-foreground">
+        Minimizes the average loss in the worst {(100 - settings.confidence).toLocaleString()}% of historical periods.
+        Set a target to require at least that annual expected return (mean-CVaR).
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+// src/components/DataSourcesList.tsx
+"use client";
+
+import type * as React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Database } from "lucide-react";
+import type { TickerDataSource, PriceDataSource } from "@/types/portfolio";
+
+interface DataSourcesListProps {
+  dataSources: TickerDataSource[];
+}
+
+const SOURCE_BADGES: { [source in PriceDataSource]: { label: string; variant: "default" | "secondary" | "destructive" } } = {
+  live: { label: "Live", variant: "default" },
+  cache: { label: "Cache", variant: "secondary" },
+  mock: { label: "Mock", variant: "destructive" },
+};
+
+export function DataSourcesList({ dataSources }: DataSourcesListProps) {
+  if (dataSources.length === 0) {
+    return null;
+  }
+
+  const count = (source: PriceDataSource) => dataSources.filter(item => item.source === source).length;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center text-xl">
+          <Database className="mr-2 h-6 w-6 text-primary" />
+          Price Data Quality
+        </CardTitle>
+        <CardDescription>
+          {count("live")} fetched live, {count("cache")} served from the local price cache, {count("mock")} generated (mock).
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[20%]">Ticker</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead className="text-right">Bars</TableHead>
+              <TableHead>Range</TableHead>
+              <TableHead className="text-right">Last Fetched</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {dataSources.map((item) => (
+              <TableRow key={item.ticker}>
+                <TableCell className="font-medium">{item.ticker}</TableCell>
+                <TableCell>
+                  <Badge variant={SOURCE_BADGES[item.source].variant} title={item.reason}>
+                    {SOURCE_BADGES[item.source].label}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">{item.barCount}</TableCell>
+                <TableCell className="text-muted-foreground">{item.startDate} to {item.endDate}</TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {new Date(item.fetchedAt).toLocaleString()}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,7 +15,10 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { FileDown, FileText, FileSpreadsheet, FileArchive } from "lucide-react"; 
-import type { OptimizationResult, OptimizationMethod, FilterCriteria } from "@/types/portfolio";
+import type { OptimizationResult, OptimizationMethod, FilterCriteria, PortfolioExposure, BacktestResult, BenchmarkComparison, MethodComparisonEntry } from "@/types/portfolio";
+import { describeBacktestSettings } from "@/lib/backtest";
+import { COVARIANCE_ESTIMATOR_LABELS, RETURN_ESTIMATOR_LABELS, usesHalfLife } from "@/lib/estimators";
+import { describeObjective } from "@/lib/objectives";
 import { useToast } from "@/hooks/use-toast";
 import { generateDocxReport } from "@/actions/download-actions"; // Import server action
 
@@ -26,6 +29,119 @@ interface DownloadResultsButtonProps {
   uploadedFileNames: string[];
 }
 
+// Side of a position: negative allocations are short
+const positionSide = (allocation: number) => (allocation < 0 ? 'Short' : 'Long');
+
+// Label/value rows describing how the Sharpe ratio was computed
+const sharpeBasisRows = ({ metrics }: OptimizationResult): [string, string][] => {
+  const rows: [string, string][] = [];
+  if (metrics.riskFreeRate !== undefined) {
+    rows.push(['Risk-Free Rate', `${metrics.riskFreeRate.toFixed(2)}% (${metrics.riskFreeRateSource ?? 'Constant'})`]);
+  }
+  if (metrics.annualizationFactor !== undefined) {
+    rows.push(['Annualization Factor', `${metrics.annualizationFactor} periods per year`]);
+  }
+  return rows;
+};
+
+// Method name with the frontier objective of the mean-variance methods
+const describeMethod = (method: OptimizationMethod, { objective }: OptimizationResult): string =>
+  objective ? `${method} (${describeObjective(objective)})` : method;
+
+// Label/value rows recording how expected returns and covariance were estimated
+const estimatorRows = ({ estimators }: OptimizationResult): [string, string][] => {
+  if (!estimators) return [];
+  const rows: [string, string][] = [
+    ['Covariance Estimator', COVARIANCE_ESTIMATOR_LABELS[estimators.covariance]],
+    ['Expected Return Estimator', RETURN_ESTIMATOR_LABELS[estimators.expectedReturns]],
+  ];
+  if (estimators.shrinkage !== undefined) rows.push(['Shrinkage Intensity', estimators.shrinkage.toFixed(2)]);
+  if (usesHalfLife(estimators)) rows.push(['EWMA Half-Life', `${estimators.halfLife} periods`]);
+  if (estimators.marketProxy) rows.push(['CAPM Market', estimators.marketProxy]);
+  return rows;
+};
+
+// Label/value rows for the tangency portfolio of the analytic frontier
+const capitalMarketLineRows = ({ capitalMarketLine }: OptimizationResult): [string, string][] => capitalMarketLine
+  ? [
+      ['Tangency Portfolio', `${capitalMarketLine.tangency.return.toFixed(2)}% return, ${capitalMarketLine.tangency.risk.toFixed(2)}% risk`],
+      ['Capital Market Line', `${capitalMarketLine.riskFreeRate.toFixed(2)}% risk-free rate, slope (Sharpe) ${capitalMarketLine.sharpeRatio.toFixed(2)}`],
+    ]
+  : [];
+
+// Label/value rows describing long and short exposure, shared by every report format
+const exposureRows = (exposure: PortfolioExposure): [string, string][] => [
+  ['Long Exposure', `${exposure.long.toFixed(2)}%`],
+  ['Short Exposure', `-${exposure.short.toFixed(2)}%`],
+  ['Gross Exposure', `${exposure.gross.toFixed(2)}%`],
+  ['Net Exposure', `${exposure.net.toFixed(2)}%`],
+];
+
+// Label/value rows for the downside risk metrics: ratios, drawdown, then VaR/CVaR per confidence level
+const riskMetricRows = ({ metrics }: OptimizationResult): [string, string][] => {
+  const rows: [string, string][] = [];
+  if (metrics.sortinoRatio !== undefined) rows.push(['Sortino Ratio', metrics.sortinoRatio.toFixed(2)]);
+  if (metrics.calmarRatio !== undefined) rows.push(['Calmar Ratio', metrics.calmarRatio.toFixed(2)]);
+  if (metrics.beta !== undefined) rows.push([`Beta vs ${metrics.benchmark ?? 'Benchmark'}`, metrics.beta.toFixed(2)]);
+  const drawdown = metrics.maxDrawdown;
+  if (drawdown) {
+    rows.push(['Max Drawdown', `-${drawdown.depth.toFixed(2)}%`]);
+    if (drawdown.depth > 0) {
+      rows.push(['Drawdown Period', `${drawdown.peakDate} to ${drawdown.troughDate}, ${drawdown.recoveryDate ? `recovered ${drawdown.recoveryDate}` : 'not recovered'} (${drawdown.durationPeriods} periods)`]);
+    }
+  }
+  for (const item of metrics.valueAtRisk ?? []) {
+    rows.push([`${item.confidence}% VaR (historical / parametric)`, `${item.historicalVaR.toFixed(2)}% / ${item.parametricVaR.toFixed(2)}%`]);
+    const minimized = item.confidence === metrics.cvarConfidence ? ', minimized' : '';
+    rows.push([`${item.confidence}% CVaR (historical / parametric${minimized})`, `${item.historicalCVaR.toFixed(2)}% / ${item.parametricCVaR.toFixed(2)}%`]);
+  }
+  return rows;
+};
+
+// Label/value rows comparing the portfolio with its benchmark
+const benchmarkComparisonRows = (comparison: BenchmarkComparison): [string, string][] => {
+  const optional = (value: number | undefined, unit = '') => (value !== undefined ? `${value.toFixed(2)}${unit}` : 'N/A');
+  return [
+    ['Benchmark', `${comparison.benchmark} (${comparison.periods} overlapping periods)`],
+    ['Alpha (annualized)', `${comparison.alpha.toFixed(2)}%`],
+    ['Beta', comparison.beta.toFixed(2)],
+    ['Tracking Error (annualized)', `${comparison.trackingError.toFixed(2)}%`],
+    ['Information Ratio', optional(comparison.informationRatio)],
+    ['Up Capture', optional(comparison.upCapture, '%')],
+    ['Down Capture', optional(comparison.downCapture, '%')],
+  ];
+};
+
+// Header and one row per method for the compare-all table
+const METHOD_COMPARISON_HEADER = ['Method', 'Risk Model', 'Expected Return', 'Risk', 'Sharpe', 'Max Drawdown'];
+const methodComparisonRows = (entries: MethodComparisonEntry[]): string[][] =>
+  entries.map(({ method, riskModel, metrics, error }) => metrics
+    ? [
+        method,
+        riskModel ?? 'N/A',
+        `${metrics.expectedReturn.toFixed(2)}%`,
+        `${metrics.risk.toFixed(2)}%`,
+        metrics.sharpeRatio !== undefined ? metrics.sharpeRatio.toFixed(2) : 'N/A',
+        metrics.maxDrawdown ? `-${metrics.maxDrawdown.depth.toFixed(2)}%` : 'N/A',
+      ]
+    : [method, error ?? 'No portfolio.', '', '', '', '']);
+
+// Label/value rows summarizing the historical backtest
+const backtestRows = (backtest: BacktestResult): [string, string][] => [
+  ['Mode', backtest.walkForward ? 'Walk-forward (out-of-sample)' : 'Full-history weights'],
+  ['Assumptions', describeBacktestSettings(backtest.settings)],
+  ['Period', `${backtest.equityCurve[0]?.date ?? 'N/A'} to ${backtest.equityCurve[backtest.equityCurve.length - 1]?.date ?? 'N/A'}`],
+  ['Initial Value', backtest.initialValue.toFixed(2)],
+  ['Final Value', backtest.finalValue.toFixed(2)],
+  ['Total Return', `${backtest.totalReturn.toFixed(2)}%`],
+  ['Annualized Return', `${backtest.annualizedReturn.toFixed(2)}%`],
+  ['Volatility', `${backtest.volatility.toFixed(2)}%`],
+  ['Max Drawdown', `-${backtest.maxDrawdown.toFixed(2)}%`],
+  ['Rebalances', `${backtest.rebalances}`],
+  ['Turnover', `${backtest.turnover.toFixed(2)}%`],
+  ['Transaction Costs', backtest.transactionCosts.toFixed(2)],
+];
+
 // Keep the HTML generation function here as it's needed by the server action,
 // but it could also be moved to the server action file if preferred.
 export const generateReportHTML = (
@@ -57,6 +173,7 @@ export const generateReportHTML = (
             .section { margin-bottom: 25px; padding: 10px; border: 1px solid #eeeeee; border-radius: 5px; background-color: #f9f9f9;}
             .label { font-weight: bold; }
             .header-main { text-align: center; margin-bottom: 25px;}
+            .short { color: #c0392b; }
           </style>
         </head>
         <body>
@@ -65,7 +182,7 @@ export const generateReportHTML = (
           <div class="section">
             <h2>Summary</h2>
             <p><span class="label">Date Generated:</span> ${new Date().toLocaleString()}</p>
-            <p><span class="label">Optimization Method:</span> ${method}</p>
+            <p><span class="label">Optimization Method:</span> ${describeMethod(method, results)}</p>
           </div>
 
           <div class="section">
@@ -81,19 +198,71 @@ export const generateReportHTML = (
             <p><span class="label">Expected Return:</span> ${results.metrics.expectedReturn.toFixed(2)}%</p>
             <p><span class="label">Risk (Volatility):</span> ${results.metrics.risk.toFixed(2)}%</p>
             <p><span class="label">Sharpe Ratio:</span> ${results.metrics.sharpeRatio !== undefined ? results.metrics.sharpeRatio.toFixed(2) : 'N/A'}</p>
+            ${[...sharpeBasisRows(results), ...estimatorRows(results), ...capitalMarketLineRows(results)].map(([label, value]) => `<p><span class="label">${label}:</span> ${value}</p>`).join('')}
           </div>
 
+          ${riskMetricRows(results).length > 0 ? `
+          <div class="section">
+            <h2>Risk Metrics</h2>
+            ${riskMetricRows(results).map(([label, value]) => `<p><span class="label">${label}:</span> ${value}</p>`).join('')}
+            <p>VaR and CVaR are one-period losses on the ${filters.interval} data interval.</p>
+          </div>` : ''}
+
+          ${results.benchmarkComparison ? `
+          <div class="section">
+            <h2>Benchmark Comparison</h2>
+            ${benchmarkComparisonRows(results.benchmarkComparison).map(([label, value]) => `<p><span class="label">${label}:</span> ${value}</p>`).join('')}
+          </div>` : ''}
+
+          ${results.exposure ? `
+          <div class="section">
+            <h2>Exposure</h2>
+            ${exposureRows(results.exposure).map(([label, value]) => `<p><span class="label">${label}:</span> ${value}</p>`).join('')}
+          </div>` : ''}
+
+          ${results.backtest ? `
+          <div class="section">
+            <h2>Historical Backtest</h2>
+            ${backtestRows(results.backtest).map(([label, value]) => `<p><span class="label">${label}:</span> ${value}</p>`).join('')}
+            <table>
+              <thead>
+                <tr>
+                  <th>Year</th>
+                  <th>Return (%)</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${results.backtest.yearlyReturns.map(item => `<tr><td>${item.year}${item.partial ? ' (partial)' : ''}</td><td>${item.return.toFixed(2)}%</td></tr>`).join('')}
+              </tbody>
+            </table>
+          </div>` : ''}
+
+          ${results.methodComparison ? `
+          <div class="section">
+            <h2>Method Comparison</h2>
+            <p>Metrics use the estimated risk model, except Black-Litterman, which is evaluated under the posterior returns it optimized for.</p>
+            <table>
+              <thead>
+                <tr>${METHOD_COMPARISON_HEADER.map(label => `<th>${label}</th>`).join('')}</tr>
+              </thead>
+              <tbody>
+                ${methodComparisonRows(results.methodComparison).map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}
+              </tbody>
+            </table>
+          </div>` : ''}
+
           <div class="section">
             <h2>Asset Allocations</h2>
             <table>
               <thead>
                 <tr>
                   <th>Asset</th>
+                  <th>Position</th>
                   <th>Allocation (%)</th>
                 </tr>
               </thead>
               <tbody>
-                ${results.allocations.map(alloc => `<tr><td>${alloc.asset}</td><td>${alloc.allocation.toFixed(2)}%</td></tr>`).join('')}
+                ${results.allocations.map(alloc => `<tr><td>${alloc.asset}</td><td>${positionSide(alloc.allocation)}</td><td${alloc.allocation < 0 ? ' class="short"' : ''}>${alloc.allocation.toFixed(2)}%</td></tr>`).join('')}
               </tbody>
             </table>
           </div>
@@ -138,7 +307,7 @@ export function DownloadResultsButton({ results, method, filters, uploadedFileNa
 
         doc.setFontSize(12);
         doc.text(`Date Generated: ${new Date().toLocaleString()}`, 14, 35);
-        doc.text(`Optimization Method: ${method}`, 14, 42);
+        doc.text(`Optimization Method: ${describeMethod(method, results)}`, 14, 42);
 
         doc.setFontSize(14);
         doc.text("Filters Applied", 14, 55);
@@ -169,6 +338,12 @@ export function DownloadResultsButton({ results, method, filters, uploadedFileNa
                 ['Expected Return', `${results.metrics.expectedReturn.toFixed(2)}%`],
                 ['Risk (Volatility)', `${results.metrics.risk.toFixed(2)}%`],
                 ['Sharpe Ratio', results.metrics.sharpeRatio !== undefined ? results.metrics.sharpeRatio.toFixed(2) : 'N/A'],
+                ...sharpeBasisRows(results),
+                ...estimatorRows(results),
+                ...capitalMarketLineRows(results),
+                ...riskMetricRows(results),
+                ...(results.benchmarkComparison ? benchmarkComparisonRows(results.benchmarkComparison) : []),
+                ...(results.exposure ? exposureRows(results.exposure) : []),
             ],
             theme: 'grid',
             styles: { fontSize: 9 },
@@ -181,13 +356,55 @@ export function DownloadResultsButton({ results, method, filters, uploadedFileNa
         doc.text("Asset Allocations", 14, currentY);
         autoTable(doc, {
           startY: currentY + 5,
-          head: [['Asset', 'Allocation (%)']],
-          body: results.allocations.map(alloc => [alloc.asset, `${alloc.allocation.toFixed(2)}%`]),
+          head: [['Asset', 'Position', 'Allocation (%)']],
+          body: results.allocations.map(alloc => [alloc.asset, positionSide(alloc.allocation), `${alloc.allocation.toFixed(2)}%`]),
           theme: 'grid',
           styles: { fontSize: 9 },
           headStyles: { fillColor: [220, 220, 220], textColor: [0,0,0] },
+          // Short positions in red
+          didParseCell: (data) => {
+            if (data.section === 'body' && results.allocations[data.row.index]?.allocation < 0) {
+              data.cell.styles.textColor = [192, 57, 43];
+            }
+          },
         });
 
+        if (results.backtest) {
+          currentY = (doc as any).lastAutoTable.finalY + 10;
+          doc.setFontSize(14);
+          doc.text("Historical Backtest", 14, currentY);
+          autoTable(doc, {
+            startY: currentY + 5,
+            head: [['Backtest', 'Value']],
+            body: backtestRows(results.backtest),
+            theme: 'grid',
+            styles: { fontSize: 9 },
+            headStyles: { fillColor: [220, 220, 220], textColor: [0,0,0] },
+          });
+          autoTable(doc, {
+            startY: (doc as any).lastAutoTable.finalY + 5,
+            head: [['Year', 'Return (%)']],
+            body: results.backtest.yearlyReturns.map(item => [`${item.year}${item.partial ? ' (partial)' : ''}`, `${item.return.toFixed(2)}%`]),
+            theme: 'grid',
+            styles: { fontSize: 9 },
+            headStyles: { fillColor: [220, 220, 220], textColor: [0,0,0] },
+          });
+        }
+
+        if (results.methodComparison) {
+          currentY = (doc as any).lastAutoTable.finalY + 10;
+          doc.setFontSize(14);
+          doc.text("Method Comparison", 14, currentY);
+          autoTable(doc, {
+            startY: currentY + 5,
+            head: [METHOD_COMPARISON_HEADER],
+            body: methodComparisonRows(results.methodComparison),
+            theme: 'grid',
+            styles: { fontSize: 9 },
+            headStyles: { fillColor: [220, 220, 220], textColor: [0,0,0] },
+          });
+        }
+
         doc.save(`${filename}.pdf`);
 
       } else if (format === "xlsx") {
@@ -200,7 +417,7 @@ export function DownloadResultsButton({ results, method, filters, uploadedFileNa
           ["Portfolio Optimization Report"],
           [],
           ["Date Generated", new Date().toLocaleString()],
-          ["Optimization Method", method],
+          ["Optimization Method", describeMethod(method, results)],
           [],
           ["Filters Applied"],
           ["Files", uploadedFileNames.join(', ')],
@@ -212,6 +429,12 @@ export function DownloadResultsButton({ results, method, filters, uploadedFileNa
           ["Expected Return", `${results.metrics.expectedReturn.toFixed(2)}%`],
           ["Risk (Volatility)", `${results.metrics.risk.toFixed(2)}%`],
           ["Sharpe Ratio", results.metrics.sharpeRatio !== undefined ? results.metrics.sharpeRatio.toFixed(2) : 'N/A'],
+          ...sharpeBasisRows(results),
+          ...estimatorRows(results),
+          ...capitalMarketLineRows(results),
+          ...(riskMetricRows(results).length > 0 ? [[], ["Risk Metrics"], ...riskMetricRows(results)] : []),
+          ...(results.benchmarkComparison ? [[], ["Benchmark Comparison"], ...benchmarkComparisonRows(results.benchmarkComparison)] : []),
+          ...(results.exposure ? [[], ["Exposure"], ...exposureRows(results.exposure)] : []),
         ];
         const wsSummary = XLSX.utils.aoa_to_sheet(summaryData);
         XLSX.utils.book_append_sheet(wb, wsSummary, "Summary");
@@ -219,11 +442,55 @@ export function DownloadResultsButton({ results, method, filters, uploadedFileNa
         // Allocations Sheet
         const allocationsData = results.allocations.map(alloc => ({
           Asset: alloc.asset,
+          Position: positionSide(alloc.allocation),
           "Allocation (%)": alloc.allocation,
         }));
         const wsAllocations = XLSX.utils.json_to_sheet(allocationsData);
         XLSX.utils.book_append_sheet(wb, wsAllocations, "Asset Allocations");
 
+        if (results.backtest) {
+          const wsBacktest = XLSX.utils.aoa_to_sheet([
+            ["Historical Backtest"],
+            ...backtestRows(results.backtest),
+            [],
+            ["Year", "Return (%)", "Partial Year"],
+            ...results.backtest.yearlyReturns.map(item => [item.year, item.return, item.partial ? "Yes" : "No"]),
+          ]);
+          XLSX.utils.book_append_sheet(wb, wsBacktest, "Backtest");
+
+          const wsEquity = XLSX.utils.json_to_sheet(results.backtest.equityCurve.map(point => ({
+            Date: point.date,
+            Value: point.value,
+            "Drawdown (%)": point.drawdown,
+          })));
+          XLSX.utils.book_append_sheet(wb, wsEquity, "Equity Curve");
+
+          const walkForward = results.backtest.walkForward;
+          if (walkForward) {
+            const wsTargets = XLSX.utils.aoa_to_sheet([
+              ["Date", ...walkForward.assets.map(asset => `${asset} (%)`)],
+              ...walkForward.targets.map(target => [target.date, ...target.weights]),
+            ]);
+            XLSX.utils.book_append_sheet(wb, wsTargets, "Walk-Forward Weights");
+          }
+        }
+
+        if (results.methodComparison) {
+          const entries = results.methodComparison;
+          const assets = Array.from(new Set(entries.flatMap(entry => entry.allocations?.map(item => item.asset) ?? [])));
+          const wsComparison = XLSX.utils.aoa_to_sheet([
+            METHOD_COMPARISON_HEADER,
+            ...methodComparisonRows(entries),
+            [],
+            ["Asset", ...entries.map(entry => `${entry.method} (%)`)],
+            ...assets.map(asset => [
+              asset,
+              ...entries.map(entry => entry.allocations?.find(item => item.asset === asset)?.allocation ?? ""),
+            ]),
+          ]);
+          XLSX.utils.book_append_sheet(wb, wsComparison, "Method Comparison");
+        }
+
         XLSX.writeFile(wb, `${filename}.xlsx`);
       }
       toast({ title: "Report Downloaded", description: `${filename}.${format} has been saved.`, variant: "default" });
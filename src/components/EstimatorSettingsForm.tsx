@@ -0,0 +1,82 @@
+// src/components/EstimatorSettingsForm.tsx
+"use client";
+
+import type * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CovarianceEstimator, EstimatorSettings, ReturnEstimator } from "@/types/portfolio";
+import { COVARIANCE_ESTIMATOR_LABELS, RETURN_ESTIMATOR_LABELS, usesHalfLife } from "@/lib/estimators";
+
+interface EstimatorSettingsFormProps {
+  settings: EstimatorSettings;
+  onSettingsChange: (settings: EstimatorSettings) => void;
+}
+
+export function EstimatorSettingsForm({ settings, onSettingsChange }: EstimatorSettingsFormProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Risk Model Estimators (Advanced)</Label>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="estimator-covariance" className="text-xs text-muted-foreground">Covariance</Label>
+          <Select
+            value={settings.covariance}
+            onValueChange={(value) => onSettingsChange({ ...settings, covariance: value as CovarianceEstimator })}
+          >
+            <SelectTrigger id="estimator-covariance">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(COVARIANCE_ESTIMATOR_LABELS) as CovarianceEstimator[]).map(value => (
+                <SelectItem key={value} value={value}>{COVARIANCE_ESTIMATOR_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="estimator-returns" className="text-xs text-muted-foreground">Expected Returns</Label>
+          <Select
+            value={settings.expectedReturns}
+            onValueChange={(value) => onSettingsChange({ ...settings, expectedReturns: value as ReturnEstimator })}
+          >
+            <SelectTrigger id="estimator-returns">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RETURN_ESTIMATOR_LABELS) as ReturnEstimator[]).map(value => (
+                <SelectItem key={value} value={value}>{RETURN_ESTIMATOR_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {usesHalfLife(settings) && (
+        <div className="space-y-1">
+          <Label htmlFor="estimator-half-life" className="text-xs text-muted-foreground">
+            EWMA Half-Life (return periods of the data interval)
+          </Label>
+          <Input
+            id="estimator-half-life"
+            type="number"
+            min={1}
+            step={1}
+            value={Number.isFinite(settings.halfLife) ? settings.halfLife : ""}
+            onChange={(e) => onSettingsChange({ ...settings, halfLife: e.target.value === "" ? 1 : Math.max(1, Number(e.target.value)) })}
+          />
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {settings.expectedReturns === "capm"
+          ? "CAPM-implied returns use the benchmark as the market, or an equal-weighted portfolio of the tickers without one."
+          : "Shrinkage and constant correlation steady a covariance estimated from short histories; EWMA favours recent periods."}
+      </p>
+    </div>
+  );
+}
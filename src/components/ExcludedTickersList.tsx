@@ -0,0 +1,55 @@
+// src/components/ExcludedTickersList.tsx
+"use client";
+
+import type * as React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Filter } from "lucide-react";
+import type { ExcludedTicker } from "@/types/portfolio";
+
+interface ExcludedTickersListProps {
+  excludedTickers: ExcludedTicker[];
+}
+
+export function ExcludedTickersList({ excludedTickers }: ExcludedTickersListProps) {
+  if (excludedTickers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center text-xl">
+          <Filter className="mr-2 h-6 w-6 text-primary" />
+          Excluded Tickers
+        </CardTitle>
+        <CardDescription>Tickers removed from the universe before optimization.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[25%]">Ticker</TableHead>
+              <TableHead>Reason</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {excludedTickers.map((item) => (
+              <TableRow key={item.ticker}>
+                <TableCell className="font-medium">{item.ticker}</TableCell>
+                <TableCell className="text-muted-foreground">{item.reason}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+// src/components/MethodComparisonTable.tsx
+"use client";
+
+import type * as React from "react";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import type { OptimizationResult } from "@/types/portfolio";
+import { Columns3 } from "lucide-react";
+
+interface MethodComparisonTableProps {
+  results: OptimizationResult | null;
+}
+
+const formatOptional = (value: number | undefined) => (value !== undefined ? value.toFixed(2) : "N/A");
+
+export function MethodComparisonTable({ results }: MethodComparisonTableProps) {
+  const entries = results?.methodComparison;
+  if (!entries || entries.length === 0) {
+    return null;
+  }
+
+  // Every asset any method holds, in the order of the first method that holds it
+  const assets = Array.from(new Set(entries.flatMap(entry => entry.allocations?.map(item => item.asset) ?? [])));
+  const allocationLookup = entries.map(entry => new Map(entry.allocations?.map(item => [item.asset, item.allocation]) ?? []));
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center text-xl">
+          <Columns3 className="mr-2 h-6 w-6 text-primary" />
+          Method Comparison
+        </CardTitle>
+        <CardDescription>
+          Every optimization method run on the same data. Metrics use the estimated risk model, except Black-Litterman, which is evaluated under the posterior returns it optimized for.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Method</TableHead>
+              <TableHead>Risk Model</TableHead>
+              <TableHead className="text-right">Expected Return</TableHead>
+              <TableHead className="text-right">Risk</TableHead>
+              <TableHead className="text-right">Sharpe</TableHead>
+              <TableHead className="text-right">Sortino</TableHead>
+              <TableHead className="text-right">Max Drawdown</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(({ method, riskModel, metrics, error }) => (
+              <TableRow key={method}>
+                <TableCell className="font-medium">{method}</TableCell>
+                {metrics ? (
+                  <>
+                    <TableCell>{riskModel ?? "N/A"}</TableCell>
+                    <TableCell className="text-right">{metrics.expectedReturn.toFixed(2)}%</TableCell>
+                    <TableCell className="text-right">{metrics.risk.toFixed(2)}%</TableCell>
+                    <TableCell className="text-right">{formatOptional(metrics.sharpeRatio)}</TableCell>
+                    <TableCell className="text-right">{formatOptional(metrics.sortinoRatio)}</TableCell>
+                    <TableCell className="text-right">
+                      {metrics.maxDrawdown ? `-${metrics.maxDrawdown.depth.toFixed(2)}%` : "N/A"}
+                    </TableCell>
+                  </>
+                ) : (
+                  <TableCell colSpan={6} className="text-destructive">{error ?? "No portfolio."}</TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {assets.length > 0 && (
+          <Table>
+            <TableCaption>Allocations (%) chosen by each method.</TableCaption>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Asset</TableHead>
+                {entries.map(({ method }) => (
+                  <TableHead key={method} className="text-right">{method}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assets.map(asset => (
+                <TableRow key={asset}>
+                  <TableCell className="font-medium">{asset}</TableCell>
+                  {allocationLookup.map((lookup, index) => {
+                    const allocation = lookup.get(asset);
+                    return (
+                      <TableCell key={entries[index].method} className={`text-right ${allocation !== undefined && allocation < 0 ? "text-destructive" : ""}`}>
+                        {allocation !== undefined ? allocation.toFixed(2) : "—"}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
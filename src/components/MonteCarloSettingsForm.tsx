@@ -0,0 +1,48 @@
+// src/components/MonteCarloSettingsForm.tsx
+"use client";
+
+import type * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { MonteCarloSettings } from "@/types/portfolio";
+
+interface MonteCarloSettingsFormProps {
+  settings: MonteCarloSettings;
+  onSettingsChange: (settings: MonteCarloSettings) => void;
+}
+
+export function MonteCarloSettingsForm({ settings, onSettingsChange }: MonteCarloSettingsFormProps) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="mc-simulations" className="text-sm font-medium">
+          Simulations
+        </Label>
+        <Input
+          id="mc-simulations"
+          type="number"
+          min={100}
+          max={100000}
+          step={1000}
+          value={settings.simulations}
+          onChange={(e) => onSettingsChange({ ...settings, simulations: Number(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="mc-seed" className="text-sm font-medium">
+          Random Seed
+        </Label>
+        <Input
+          id="mc-seed"
+          type="number"
+          placeholder="Random"
+          value={settings.seed ?? ""}
+          onChange={(e) => onSettingsChange({ ...settings, seed: e.target.value === "" ? undefined : Number(e.target.value) })}
+        />
+      </div>
+      <p className="col-span-2 text-xs text-muted-foreground">
+        Number of random portfolios to simulate. Set a seed to make runs reproducible.
+      </p>
+    </div>
+  );
+}
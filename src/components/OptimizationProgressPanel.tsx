@@ -0,0 +1,74 @@
+// src/components/OptimizationProgressPanel.tsx
+"use client";
+
+import type * as React from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Loader2 } from "lucide-react";
+import type { OptimizationProgress } from "@/hooks/use-optimization-progress";
+
+interface OptimizationProgressPanelProps {
+  progress: OptimizationProgress | null;
+}
+
+function formatRemaining(etaMs: number | undefined): string {
+  if (etaMs === undefined) return "Estimating time remaining...";
+  const seconds = Math.ceil(etaMs / 1000);
+  if (seconds <= 1) return "Almost done";
+  if (seconds < 60) return `About ${seconds}s remaining`;
+  return `About ${Math.floor(seconds / 60)}m ${seconds % 60}s remaining`;
+}
+
+export function OptimizationProgressPanel({ progress }: OptimizationProgressPanelProps) {
+  const completedTickers = progress ? progress.fetched + progress.cached + progress.failed.length : 0;
+  const fetchPercent = progress && progress.totalTickers > 0 ? (completedTickers / progress.totalTickers) * 100 : 0;
+  const optimizePercent = progress && progress.totalIterations > 0 ? (progress.iteration / progress.totalIterations) * 100 : 0;
+
+  return (
+    <Card className="shadow-xl min-h-[300px] bg-card">
+      <CardHeader>
+        <CardTitle className="flex items-center text-xl">
+          <Loader2 className="mr-2 h-6 w-6 animate-spin text-primary" />
+          Optimizing your portfolio...
+        </CardTitle>
+        <CardDescription>{progress ? formatRemaining(progress.etaMs) : "Preparing..."}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium text-foreground">Fetching price data</span>
+            <span className="text-muted-foreground">
+              {completedTickers} / {progress?.totalTickers ?? 0} tickers
+            </span>
+          </div>
+          <Progress value={fetchPercent} />
+          <p className="text-xs text-muted-foreground">
+            {progress?.fetched ?? 0} fetched, {progress?.cached ?? 0} from cache, {progress?.failed.length ?? 0} failed
+            {progress?.stage === "fetching" && progress.lastTicker ? ` (last: ${progress.lastTicker})` : ""}
+          </p>
+          {progress && progress.failed.length > 0 && (
+            <ul className="text-xs text-destructive space-y-1">
+              {progress.failed.map((item) => (
+                <li key={item.ticker}>
+                  {item.ticker}: {item.message ?? "Failed"}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium text-foreground">
+              {progress?.method ? `Running ${progress.method}` : "Running optimizer"}
+            </span>
+            <span className="text-muted-foreground">
+              {progress?.stage === "optimizing" ? `${progress.iteration} / ${progress.totalIterations} iterations` : "Waiting for data"}
+            </span>
+          </div>
+          <Progress value={optimizePercent} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,23 +9,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import type { OptimizationMethod } from "@/types/portfolio";
-
-const optimizationMethods: OptimizationMethod[] = [
-  "Modern Portfolio Theory",
-  "Black-Litterman",
-  "Monte Carlo Simulation",
-  "Risk Parity",
-  "Equal Weighting",
-];
+import { Switch } from "@/components/ui/switch";
+import { MEAN_VARIANCE_METHODS, OPTIMIZATION_METHODS, type ObjectiveSettings, type OptimizationMethod, type OptimizationObjective } from "@/types/portfolio";
+import { OBJECTIVE_LABELS } from "@/lib/objectives";
 
 interface OptimizerSelectProps {
   selectedMethod: OptimizationMethod;
   onMethodChange: (method: OptimizationMethod) => void;
+  compareAll: boolean;
+  onCompareAllChange: (compareAll: boolean) => void;
+  objective: ObjectiveSettings;
+  onObjectiveChange: (objective: ObjectiveSettings) => void;
 }
 
-export function OptimizerSelect({ selectedMethod, onMethodChange }: OptimizerSelectProps) {
+// Parses an optional percentage input; an empty field leaves the target unset
+const parseTarget = (value: string): number | undefined => (value === "" ? undefined : Number(value));
+
+export function OptimizerSelect({ selectedMethod, onMethodChange, compareAll, onCompareAllChange, objective, onObjectiveChange }: OptimizerSelectProps) {
+  const showObjective = compareAll || MEAN_VARIANCE_METHODS.includes(selectedMethod);
+
   return (
     <div className="space-y-2">
       <Label htmlFor="optimizer-select" className="text-sm font-medium">
@@ -39,7 +43,7 @@ export function OptimizerSelect({ selectedMethod, onMethodChange }: OptimizerSel
           <SelectValue placeholder="Choose optimization method" />
         </SelectTrigger>
         <SelectContent>
-          {optimizationMethods.map((method) => (
+          {OPTIMIZATION_METHODS.map((method) => (
             <SelectItem key={method} value={method}>
               {method}
             </SelectItem>
@@ -49,6 +53,63 @@ export function OptimizerSelect({ selectedMethod, onMethodChange }: OptimizerSel
       <p className="text-xs text-muted-foreground">
         Select the algorithm to optimize your portfolio.
       </p>
+      {showObjective && (
+        <div className="space-y-2 pt-2">
+          <Label htmlFor="optimizer-objective" className="text-sm font-medium">
+            Objective
+          </Label>
+          <Select
+            value={objective.objective}
+            onValueChange={(value) => onObjectiveChange({ ...objective, objective: value as OptimizationObjective })}
+          >
+            <SelectTrigger id="optimizer-objective" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OBJECTIVE_LABELS) as OptimizationObjective[]).map(value => (
+                <SelectItem key={value} value={value}>{OBJECTIVE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {objective.objective === "target-volatility" && (
+            <div className="space-y-1">
+              <Label htmlFor="optimizer-target-volatility" className="text-xs text-muted-foreground">Target Volatility (% per year)</Label>
+              <Input
+                id="optimizer-target-volatility"
+                type="number"
+                min={0}
+                step={0.5}
+                value={objective.targetVolatility ?? ""}
+                onChange={(e) => onObjectiveChange({ ...objective, targetVolatility: parseTarget(e.target.value) })}
+              />
+            </div>
+          )}
+          {objective.objective === "target-return" && (
+            <div className="space-y-1">
+              <Label htmlFor="optimizer-target-return" className="text-xs text-muted-foreground">Target Return (% per year)</Label>
+              <Input
+                id="optimizer-target-return"
+                type="number"
+                step={0.5}
+                value={objective.targetReturn ?? ""}
+                onChange={(e) => onObjectiveChange({ ...objective, targetReturn: parseTarget(e.target.value) })}
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            The point of the efficient frontier that Modern Portfolio Theory and Black-Litterman select.
+          </p>
+        </div>
+      )}
+      <div className="flex items-center justify-between pt-2">
+        <Label htmlFor="optimizer-compare-all" className="text-sm font-medium">Compare All Methods</Label>
+        <Switch id="optimizer-compare-all" checked={compareAll} onCheckedChange={onCompareAllChange} />
+      </div>
+      {compareAll && (
+        <p className="text-xs text-muted-foreground">
+          Every method runs on the same data; the selected method provides the main results.
+        </p>
+      )}
     </div>
   );
 }
@@ -12,8 +12,11 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import type { OptimizationResult } from "@/types/portfolio";
-import { TrendingUp, BarChart3, Percent, AlertTriangle, Activity } from "lucide-react";
+import { describeEstimators } from "@/lib/estimators";
+import { describeObjective } from "@/lib/objectives";
+import { TrendingUp, TrendingDown, BarChart3, Percent, AlertTriangle, Activity, ArrowLeftRight, ShieldAlert, Scale } from "lucide-react";
 
 interface ResultsTableProps {
   results: OptimizationResult | null;
@@ -24,7 +27,26 @@ export function ResultsTable({ results }: ResultsTableProps) {
     return null; // Or a placeholder indicating no results yet
   }
 
-  const { allocations, metrics } = results;
+  const { allocations, metrics, exposure, benchmarkComparison, estimators, objective } = results;
+  const showRiskContribution = allocations.some(item => item.riskContribution !== undefined);
+  const showBindingConstraints = allocations.some(item => item.bindingConstraints?.length);
+  const { maxDrawdown, valueAtRisk } = metrics;
+  const riskRatios = ([
+    ["Sortino Ratio", metrics.sortinoRatio],
+    ["Calmar Ratio", metrics.calmarRatio],
+    [metrics.benchmark ? `Beta vs ${metrics.benchmark}` : "Beta", metrics.beta],
+  ] as const).filter((entry): entry is readonly [string, number] => entry[1] !== undefined);
+  const showRiskMetrics = riskRatios.length > 0 || maxDrawdown !== undefined || !!valueAtRisk?.length;
+  const comparisonRows = benchmarkComparison
+    ? ([
+        ["Alpha", benchmarkComparison.alpha, "%"],
+        ["Beta", benchmarkComparison.beta, ""],
+        ["Tracking Error", benchmarkComparison.trackingError, "%"],
+        ["Information Ratio", benchmarkComparison.informationRatio, ""],
+        ["Up Capture", benchmarkComparison.upCapture, "%"],
+        ["Down Capture", benchmarkComparison.downCapture, "%"],
+      ] as const)
+    : [];
 
   return (
     <div className="space-y-6">
@@ -65,9 +87,139 @@ export function ResultsTable({ results }: ResultsTableProps) {
               </div>
             )}
           </dl>
+          {metrics.riskFreeRate !== undefined && metrics.annualizationFactor !== undefined && (
+            <p className="mt-3 text-xs text-muted-foreground">
+              Sharpe ratio from the historical excess returns over a {metrics.riskFreeRate.toFixed(2)}% risk-free rate
+              ({metrics.riskFreeRateSource ?? "Constant"}), annualized with {metrics.annualizationFactor} periods per year
+              (×√{metrics.annualizationFactor}).
+            </p>
+          )}
+          {estimators && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              Expected return and risk estimated with: {describeEstimators(estimators)}.
+            </p>
+          )}
+          {objective && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              Frontier objective: {describeObjective(objective)}.
+            </p>
+          )}
+          {exposure && (
+            <dl className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-4">
+              {([
+                ["Long Exposure", exposure.long],
+                ["Short Exposure", -exposure.short],
+                ["Gross Exposure", exposure.gross],
+                ["Net Exposure", exposure.net],
+              ] as const).map(([label, value]) => (
+                <div key={label} className="flex flex-col p-3 bg-secondary/50 rounded-md">
+                  <dt className="text-sm font-medium text-muted-foreground flex items-center">
+                    <ArrowLeftRight className="mr-1.5 h-4 w-4" /> {label}
+                  </dt>
+                  <dd className={`mt-1 text-lg font-semibold ${value < 0 ? "text-destructive" : "text-primary"}`}>
+                    {value.toFixed(2)}%
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
         </CardContent>
       </Card>
-      
+
+      {showRiskMetrics && (
+        <Card className="shadow-lg">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center text-xl">
+              <ShieldAlert className="mr-2 h-6 w-6 text-primary" />
+              Risk Metrics
+            </CardTitle>
+            <CardDescription>Downside risk of the optimized portfolio over the historical data.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <dl className="grid grid-cols-1 md:grid-cols-4 gap-x-6 gap-y-4">
+              {riskRatios.map(([label, value]) => (
+                <div key={label} className="flex flex-col p-3 bg-secondary/50 rounded-md">
+                  <dt className="text-sm font-medium text-muted-foreground flex items-center">
+                    <Percent className="mr-1.5 h-4 w-4" /> {label}
+                  </dt>
+                  <dd className="mt-1 text-lg font-semibold text-primary">{value.toFixed(2)}</dd>
+                </div>
+              ))}
+              {maxDrawdown && (
+                <div className="flex flex-col p-3 bg-secondary/50 rounded-md">
+                  <dt className="text-sm font-medium text-muted-foreground flex items-center">
+                    <TrendingDown className="mr-1.5 h-4 w-4" /> Max Drawdown
+                  </dt>
+                  <dd className="mt-1 text-lg font-semibold text-destructive">-{maxDrawdown.depth.toFixed(2)}%</dd>
+                </div>
+              )}
+            </dl>
+            {maxDrawdown && maxDrawdown.depth > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Peak on {maxDrawdown.peakDate}, trough on {maxDrawdown.troughDate},{" "}
+                {maxDrawdown.recoveryDate ? `recovered on ${maxDrawdown.recoveryDate}` : "not yet recovered"}{" "}
+                ({maxDrawdown.durationPeriods} periods{maxDrawdown.recoveryDate ? "" : " so far"}).
+              </p>
+            )}
+            {valueAtRisk && valueAtRisk.length > 0 && (
+              <Table>
+                <TableCaption>One-period losses on the data interval. Parametric figures assume normally distributed returns.</TableCaption>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Confidence</TableHead>
+                    <TableHead className="text-right">Historical VaR</TableHead>
+                    <TableHead className="text-right">Parametric VaR</TableHead>
+                    <TableHead className="text-right">Historical CVaR</TableHead>
+                    <TableHead className="text-right">Parametric CVaR</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {valueAtRisk.map(item => (
+                    <TableRow key={item.confidence}>
+                      <TableCell className="font-medium">
+                        {item.confidence}%
+                        {item.confidence === metrics.cvarConfidence && <Badge variant="outline" className="ml-2">Minimized</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{item.historicalVaR.toFixed(2)}%</TableCell>
+                      <TableCell className="text-right">{item.parametricVaR.toFixed(2)}%</TableCell>
+                      <TableCell className="text-right">{item.historicalCVaR.toFixed(2)}%</TableCell>
+                      <TableCell className="text-right">{item.parametricCVaR.toFixed(2)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {benchmarkComparison && (
+        <Card className="shadow-lg">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center text-xl">
+              <Scale className="mr-2 h-6 w-6 text-primary" />
+              Benchmark Comparison
+            </CardTitle>
+            <CardDescription>
+              Relative to {benchmarkComparison.benchmark} over {benchmarkComparison.periods.toLocaleString()} overlapping periods.
+              Alpha and tracking error are annualized.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-4">
+              {comparisonRows.map(([label, value, unit]) => (
+                <div key={label} className="flex flex-col p-3 bg-secondary/50 rounded-md">
+                  <dt className="text-sm font-medium text-muted-foreground">{label}</dt>
+                  <dd className="mt-1 text-lg font-semibold text-primary">
+                    {value !== undefined ? `${value.toFixed(2)}${unit}` : "N/A"}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="shadow-lg">
         <CardHeader className="pb-2">
           <CardTitle className="flex items-center text-xl">
@@ -83,13 +235,32 @@ export function ResultsTable({ results }: ResultsTableProps) {
                 <TableRow>
                   <TableHead className="w-[60%]">Asset</TableHead>
                   <TableHead className="text-right">Allocation</TableHead>
+                  {showRiskContribution && <TableHead className="text-right">Risk Contribution</TableHead>}
+                  {showBindingConstraints && <TableHead>Binding Constraints</TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {allocations.map((item) => (
                   <TableRow key={item.asset}>
                     <TableCell className="font-medium">{item.asset}</TableCell>
-                    <TableCell className="text-right">{item.allocation.toFixed(2)}%</TableCell>
+                    <TableCell className={`text-right ${item.allocation < 0 ? "text-destructive" : ""}`}>
+                      {item.allocation < 0 && <Badge variant="destructive" className="mr-2">Short</Badge>}
+                      {item.allocation.toFixed(2)}%
+                    </TableCell>
+                    {showRiskContribution && (
+                      <TableCell className="text-right">
+                        {item.riskContribution !== undefined ? `${item.riskContribution.toFixed(2)}%` : 'N/A'}
+                      </TableCell>
+                    )}
+                    {showBindingConstraints && (
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {item.bindingConstraints?.map(label => (
+                            <Badge key={label} variant="outline">{label}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    )}
                   </TableRow>
                 ))}
               </TableBody>
@@ -0,0 +1,111 @@
+// src/components/RiskFreeRateForm.tsx
+"use client";
+
+import type * as React from "react";
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { RiskFreeRateSettings } from "@/types/portfolio";
+import { DEFAULT_RISK_FREE_RATE, parseRateSeries } from "@/lib/risk-free-rate";
+
+interface RiskFreeRateFormProps {
+  settings: RiskFreeRateSettings;
+  onSettingsChange: (settings: RiskFreeRateSettings) => void;
+}
+
+export function RiskFreeRateForm({ settings, onSettingsChange }: RiskFreeRateFormProps) {
+  // The series option stays selected while no file has been loaded yet
+  const [source, setSource] = useState<RiskFreeRateSettings["source"]>(settings.source);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [skippedRows, setSkippedRows] = useState(0);
+
+  // Follow settings replaced from outside (e.g. a form reset)
+  useEffect(() => {
+    setSource(settings.source);
+  }, [settings]);
+
+  const handleSourceChange = (value: RiskFreeRateSettings["source"]) => {
+    setSource(value);
+    setFileError(null);
+    if (value === "constant" && settings.source !== "constant") {
+      onSettingsChange({ source: "constant", rate: DEFAULT_RISK_FREE_RATE });
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const { observations, skippedRows } = parseRateSeries(await file.text());
+      setFileError(null);
+      setSkippedRows(skippedRows);
+      onSettingsChange({ source: "series", fileName: file.name, observations });
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const loadedSeries = settings.source === "series" ? settings : null;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="risk-free-source" className="text-sm font-medium">
+        Risk-Free Rate
+      </Label>
+      <div className="grid grid-cols-2 gap-4">
+        <Select value={source} onValueChange={(value) => handleSourceChange(value as RiskFreeRateSettings["source"])}>
+          <SelectTrigger id="risk-free-source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="constant">Constant rate</SelectItem>
+            <SelectItem value="series">T-bill series file</SelectItem>
+          </SelectContent>
+        </Select>
+        {source === "constant" ? (
+          <Input
+            type="number"
+            step="0.25"
+            aria-label="Risk-free rate (% per year)"
+            value={settings.source === "constant" && Number.isFinite(settings.rate) ? settings.rate : ""}
+            onChange={(e) => onSettingsChange({ source: "constant", rate: e.target.value === "" ? 0 : Number(e.target.value) })}
+          />
+        ) : (
+          <Input
+            type="file"
+            accept=".csv,.txt"
+            aria-label="T-bill yield series file"
+            onChange={handleFileChange}
+          />
+        )}
+      </div>
+      {source === "series" && fileError && (
+        <p className="text-xs text-destructive">{fileError}</p>
+      )}
+      {source === "series" && !fileError && loadedSeries && (
+        <p className="text-xs text-muted-foreground">
+          {loadedSeries.fileName}: {loadedSeries.observations.length.toLocaleString()} observations from{" "}
+          {loadedSeries.observations[0].date} to {loadedSeries.observations[loadedSeries.observations.length - 1].date}
+          {skippedRows > 0 ? ` (${skippedRows} rows without a value skipped)` : ""}.
+        </p>
+      )}
+      {source === "series" && !fileError && settings.source === "constant" && (
+        <p className="text-xs text-muted-foreground">
+          No file loaded yet; the constant rate of {settings.rate}% is used until one is.
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {source === "constant"
+          ? "Annual rate in percent, used for Sharpe ratios."
+          : "CSV with a date column and an annual yield in percent (e.g. FRED's DTB3 download). Each period uses the latest yield on or before its date."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+// src/components/SyntheticDataAlert.tsx
+"use client";
+
+import type * as React from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import type { AssetAllocation, TickerDataSource } from "@/types/portfolio";
+
+interface SyntheticDataAlertProps {
+  allocations: AssetAllocation[];
+  dataSources: TickerDataSource[];
+  placeholderResults: boolean;
+}
+
+/**
+ * Warns when any allocation is based on generated (mock) prices rather than market data.
+ */
+export function SyntheticDataAlert({ allocations, dataSources, placeholderResults }: SyntheticDataAlertProps) {
+  const allocatedAssets = new Set(allocations.map(item => item.asset));
+  const mockSources = dataSources.filter(item => item.source === "mock" && allocatedAssets.has(item.ticker));
+
+  if (!placeholderResults && mockSources.length === 0) {
+    return null;
+  }
+
+  const reasons = Array.from(new Set(mockSources.map(item => item.reason).filter(Boolean)));
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Results use synthetic prices</AlertTitle>
+      <AlertDescription>
+        {placeholderResults ? (
+          <>No price data could be fetched, so these results are random placeholders.</>
+        ) : (
+          <>
+            Allocations for {mockSources.map(item => item.ticker).join(", ")} are based on generated mock prices, not market data.
+            {reasons.length > 0 && <> Reason: {reasons.join(" ")}</>}
+          </>
+        )}{" "}
+        Do not use them for investment decisions.
+      </AlertDescription>
+    </Alert>
+  );
+}
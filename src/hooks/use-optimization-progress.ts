@@ -0,0 +1,62 @@
+import * as React from "react"
+
+import type { OptimizationMethod, OptimizationProgressEvent } from "@/types/portfolio"
+
+// Aggregated view of the progress events streamed by `optimizePortfolio`
+export interface OptimizationProgress {
+  stage: "fetching" | "optimizing"
+  totalTickers: number
+  fetched: number
+  cached: number
+  failed: { ticker: string; message?: string }[]
+  lastTicker?: string
+  method?: OptimizationMethod
+  iteration: number
+  totalIterations: number
+  etaMs?: number
+}
+
+const initialProgress: OptimizationProgress = {
+  stage: "fetching",
+  totalTickers: 0,
+  fetched: 0,
+  cached: 0,
+  failed: [],
+  iteration: 0,
+  totalIterations: 0,
+}
+
+function applyProgressEvent(progress: OptimizationProgress, event: OptimizationProgressEvent): OptimizationProgress {
+  if (event.stage === "fetching") {
+    return {
+      ...progress,
+      stage: "fetching",
+      totalTickers: event.total,
+      fetched: progress.fetched + (event.status === "fetched" ? 1 : 0),
+      cached: progress.cached + (event.status === "cached" ? 1 : 0),
+      failed: event.status === "failed" ? [...progress.failed, { ticker: event.ticker, message: event.message }] : progress.failed,
+      lastTicker: event.ticker,
+      etaMs: event.etaMs,
+    }
+  }
+  return {
+    ...progress,
+    stage: "optimizing",
+    method: event.method,
+    iteration: event.iteration,
+    totalIterations: event.totalIterations,
+    etaMs: event.etaMs,
+  }
+}
+
+export function useOptimizationProgress() {
+  const [progress, setProgress] = React.useState<OptimizationProgress | null>(null)
+
+  const handleProgressEvent = React.useCallback((event: OptimizationProgressEvent) => {
+    setProgress((current) => applyProgressEvent(current ?? initialProgress, event))
+  }, [])
+
+  const resetProgress = React.useCallback(() => setProgress(null), [])
+
+  return { progress, handleProgressEvent, resetProgress }
+}
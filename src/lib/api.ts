@@ -1,7 +1,14 @@
 // src/lib/api.ts
-import type { OptimizationParams, OptimizationResult, RiskReturnChartData, AssetAllocation, PortfolioMetrics, OptimizationApiResponse } from '@/types/portfolio';
-import { getHistoricalData } from "@/services/stock_data"; // Corrected import path
-import { yfinanceRateLimiter, delay as rateLimitDelay } from '@/lib/rate-limiter'; // Import the rate limiter and renamed delay
+import type { OptimizationParams, OptimizationResult, RiskReturnChartData, AssetAllocation, PortfolioMetrics, OptimizationApiResponse, StockData, TickerData, TickerUploadResult, MalformedTickerRow, ExcludedTicker, TickerDataSource, HistoricalDataResult, FetchProgressEvent, OptimizationProgressEvent, BenchmarkSettings } from '@/types/portfolio';
+import { getCachedHistoricalData, getHistoricalData, getHistoricalDataBatch, getMarketCapBatch } from "@/services/stock_data";
+import { runOptimization, type OptimizationInputs, type OptimizerWorkerResponse } from '@/lib/optimization';
+import type { IterationCallback } from '@/lib/portfolio-math';
+import { parseTickerFile, dedupeTickers } from '@/lib/ticker-parser';
+import { screenTickers } from '@/lib/screening';
+import { yfinanceRateLimiter } from '@/lib/rate-limiter';
+import { fetchInBatches, normalizeConcurrency, MAX_RATE_LIMIT_WAIT_MS } from '@/lib/fetch-scheduler';
+import type { BenchmarkSeries } from '@/lib/risk-metrics';
+import { combineBenchmarkBars, describeBenchmark } from '@/lib/benchmark';
 
 // Simulate API delay - keeping this for mock latency simulation if needed elsewhere
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
@@ -10,10 +17,9 @@ const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 const MOCK_ASSETS = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'TSLA', 'NVDA', 'BRK-A', 'JPM', 'V', 'JNJ'];
 
 // --- Mock Data Generation (Used if API key is missing or fetching fails) ---
-function generateRandomAllocations(numAssets: number): AssetAllocation[] {
+function generateRandomAllocations(assetsToUse: string[]): AssetAllocation[] {
   let remainingPercentage = 100;
   const allocations: AssetAllocation[] = [];
-  const assetsToUse = MOCK_ASSETS.slice(0, numAssets);
 
   for (let i = 0; i < assetsToUse.length - 1; i++) {
     const randomAlloc = Math.random() * (remainingPercentage / (assetsToUse.length - i));
@@ -32,7 +38,7 @@ function generateRandomMetrics(): PortfolioMetrics {
   return {
     expectedReturn: parseFloat((Math.random() * 15 + 5).toFixed(2)), // 5% to 20%
     risk: parseFloat((Math.random() * 20 + 5).toFixed(2)), // 5% to 25%
-    sharpeRatio: parseFloat((Math.random() * 1.5 + 0.5).toFixed(2)), // 0.5 to 2.0
+    // No Sharpe ratio: without a return series there is nothing to compute it from
   };
 }
 
@@ -48,48 +54,247 @@ function generateEfficientFrontier(): RiskReturnChartData[] {
 // --- End Mock Data Generation ---
 
 
-// Wrap the data fetching function from stock_data service with the rate limiter
-const rateLimitedFetchStockData = yfinanceRateLimiter.wrapAsync(getHistoricalData);
+/**
+ * Estimates the time left from the average time per completed step.
+ */
+function estimateRemainingMs(startedAt: number, completed: number, total: number): number | undefined {
+  if (completed <= 0) return undefined;
+  return ((Date.now() - startedAt) / completed) * Math.max(total - completed, 0);
+}
+
+/**
+ * Fetches one benchmark ticker's bars: reused from the fetched universe when the ticker
+ * is one of them, otherwise served from the price cache or the data provider.
+ * @param label How the ticker is named in warnings (e.g. "benchmark SPY").
+ * @param warnings Collects the reason when the prices are unavailable or synthetic.
+ * @returns The bars, or undefined if they could not be fetched.
+ */
+async function fetchBenchmarkBars(
+  ticker: string,
+  label: string,
+  interval: string,
+  stockData: Record<string, StockData[]>,
+  warnings: string[]
+): Promise<StockData[] | undefined> {
+  if (stockData[ticker]) {
+    return stockData[ticker];
+  }
+  try {
+    let fetched: HistoricalDataResult | undefined = (await getCachedHistoricalData([ticker], interval))[ticker];
+    if (!fetched) {
+      await yfinanceRateLimiter.acquire(MAX_RATE_LIMIT_WAIT_MS);
+      fetched = await getHistoricalData(ticker, interval);
+    }
+    if (fetched.bars.length === 0) {
+      warnings.push(`No price data was returned for ${label}.`);
+      return undefined;
+    }
+    if (fetched.source === 'mock') {
+      warnings.push(`The ${label} uses synthetic prices${fetched.reason ? ` (${fetched.reason})` : ''}; the benchmark comparison is not meaningful.`);
+    }
+    return fetched.bars;
+  } catch (error) {
+    warnings.push(`Fetching ${label} failed: ${error instanceof Error ? error.message : 'Unknown error'}.`);
+    return undefined;
+  }
+}
+
+/**
+ * Fetches the benchmark series: a single ticker, or the constituents of a benchmark
+ * portfolio combined into one series held at the file's weights.
+ * @param warnings Collects the reason when the benchmark (or a constituent) is unavailable or synthetic.
+ * @returns The benchmark series, or undefined if it could not be fetched.
+ */
+async function fetchBenchmark(
+  settings: BenchmarkSettings,
+  interval: string,
+  stockData: Record<string, StockData[]>,
+  warnings: string[]
+): Promise<BenchmarkSeries | undefined> {
+  const name = describeBenchmark(settings);
+  if (settings.source === 'ticker') {
+    const ticker = settings.ticker.trim().toUpperCase();
+    const bars = await fetchBenchmarkBars(ticker, `benchmark ${ticker}`, interval, stockData, warnings);
+    return bars ? { name: ticker, bars } : undefined;
+  }
+
+  const constituents: Record<string, StockData[]> = {};
+  for (const { asset } of settings.weights) {
+    const bars = await fetchBenchmarkBars(asset, `benchmark constituent ${asset}`, interval, stockData, warnings);
+    if (bars) constituents[asset] = bars;
+  }
+  const missing = settings.weights.filter(({ asset }) => !constituents[asset]).map(({ asset }) => asset);
+  if (missing.length > 0 && missing.length < settings.weights.length) {
+    warnings.push(`${name} excludes ${missing.join(', ')}; the remaining weights were rescaled.`);
+  }
+  const bars = combineBenchmarkBars(constituents, settings.weights);
+  if (bars.length < 2) {
+    warnings.push(`${name} has no common price history across its holdings; beta and the benchmark comparison are not reported.`);
+    return undefined;
+  }
+  return { name, bars };
+}
+
+/**
+ * Runs the optimizer in a Web Worker so the page stays responsive and can render
+ * progress. Falls back to the main thread where workers are unavailable or fail to start.
+ */
+function runOptimizationInWorker(
+  params: OptimizationParams,
+  inputs: OptimizationInputs,
+  warnings: string[],
+  onIteration: IterationCallback
+): Promise<OptimizationResult> {
+  const runInline = () => runOptimization(params, inputs, warnings, onIteration);
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(runInline);
+  }
 
+  return new Promise((resolve, reject) => {
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn("Could not start the optimizer worker; running on the main thread.", error);
+      try { resolve(runInline()); } catch (inlineError) { reject(inlineError); }
+      return;
+    }
+
+    let started = false;
+    worker.onmessage = (event: MessageEvent<OptimizerWorkerResponse>) => {
+      started = true;
+      const message = event.data;
+      switch (message.type) {
+        case 'iteration':
+          onIteration(message.completed, message.total);
+          break;
+        case 'result':
+          worker.terminate();
+          warnings.push(...message.warnings);
+          resolve(message.result);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      if (started) {
+        reject(new Error(event.message || "The optimizer worker failed."));
+        return;
+      }
+      console.warn("The optimizer worker failed to start; running on the main thread.", event.message);
+      try { resolve(runInline()); } catch (inlineError) { reject(inlineError); }
+    };
+    worker.postMessage({ params, inputs });
+  });
+}
 
 /**
  * Orchestrates the portfolio optimization process.
- * 1. Fetches stock data for the provided tickers using a rate-limited function.
- * 2. (If real data fetched) Performs optimization calculations based on the selected method.
+ * 1. Fetches stock data for the provided tickers, from the price cache when fresh or else in
+ *    parallel batches charged against the rate limiter. Tickers that fail are excluded
+ *    and the rest are still used.
+ * 2. (If real data fetched) Fetches the benchmark (if set) and screens tickers against the market
+ *    cap and volume filters, then performs optimization calculations based on the selected method.
  * 3. (If data fetching fails or API key is missing) Falls back to generating mock results.
+ *    The optimizer runs in a Web Worker so progress can be streamed to the page.
  * 4. Returns the optimization results along with any rate limit warnings.
  * @param params - The optimization parameters including tickers, filters, and method.
+ * @param onProgress - Optional callback receiving progress events: one per ticker as it is fetched,
+ *                     served from cache or fails, then optimizer iterations. Events carry a time-remaining estimate.
  * @returns A promise resolving to the OptimizationApiResponse containing results and potential warnings.
  */
-export async function optimizePortfolio(params: OptimizationParams): Promise<OptimizationApiResponse> {
+export async function optimizePortfolio(
+  params: OptimizationParams,
+  onProgress?: (event: OptimizationProgressEvent) => void
+): Promise<OptimizationApiResponse> {
   console.log('Optimizing portfolio with params:', params);
 
   // --- Rate Limiter and Data Fetching ---
-  // In a real implementation, fetch data for each ticker from `params.uploadedFileNames`
-  // This example simulates fetching for a limited number of mock assets IF real fetching fails.
-  const tickersToFetch = params.uploadedFileNames.length > 0 ? params.uploadedFileNames : MOCK_ASSETS.slice(0, 5); // Use uploaded tickers or fallback mocks
-  const allStockData = {};
+  // Fetch data for each ticker parsed from the uploaded files.
+  // This example simulates fetching for a limited number of mock assets IF no tickers were provided.
+  const tickersToFetch = params.tickers.length > 0 ? params.tickers : MOCK_ASSETS.slice(0, 5); // Use uploaded tickers or fallback mocks
+  const allStockData: Record<string, StockData[]> = {};
+  const marketCaps: Record<string, number | null> = {};
+  const optimizationWarnings: string[] = [];
+  const excludedTickers: ExcludedTicker[] = [];
+  const dataSources: TickerDataSource[] = [];
   let rateLimitWarning: string | undefined = undefined;
   let dataFetchedSuccessfully = true;
 
+  const interval = params.filters.interval;
+  const concurrency = normalizeConcurrency(params.fetchConcurrency);
+  let completedTickers = 0;
+  const fetchStartedAt = Date.now();
+  const reportProgress = (ticker: string, status: FetchProgressEvent['status'], message?: string) => {
+    completedTickers++;
+    onProgress?.({
+      stage: 'fetching',
+      ticker,
+      status,
+      completed: completedTickers,
+      total: tickersToFetch.length,
+      message,
+      etaMs: estimateRemainingMs(fetchStartedAt, completedTickers, tickersToFetch.length),
+    });
+  };
+  const recordFetched = (ticker: string, fetched: HistoricalDataResult) => {
+    if (fetched.bars.length > 0) { // Check if data was actually returned
+      allStockData[ticker] = fetched.bars;
+      dataSources.push({
+        ticker,
+        source: fetched.source,
+        fetchedAt: fetched.fetchedAt,
+        barCount: fetched.bars.length,
+        startDate: fetched.bars[0].date,
+        endDate: fetched.bars[fetched.bars.length - 1].date,
+        reason: fetched.reason,
+      });
+      reportProgress(ticker, fetched.source === 'cache' ? 'cached' : 'fetched');
+    } else {
+      console.warn(`No data received for ${ticker}.`);
+      excludedTickers.push({ ticker, reason: 'No price data was returned.' });
+      reportProgress(ticker, 'failed', 'No price data was returned.');
+    }
+  };
+
   try {
-      console.log(`Fetching data for tickers: ${tickersToFetch.join(', ')} using rate-limited fetch...`);
-      for (const ticker of tickersToFetch) {
-          console.log(`Attempting to fetch data for ${ticker}`);
-          // Use the rate-limited function wrapping the actual API call in stock_data.ts
-          const stockData = await rateLimitedFetchStockData(ticker, params.filters.interval);
-          if (stockData && stockData.length > 0) { // Check if data was actually returned
-            allStockData[ticker] = stockData;
-            console.log(`Successfully fetched data for ${ticker}`);
-          } else {
-            console.warn(`No data received for ${ticker}, potentially falling back to mock data later.`);
-            // Optionally mark data as partially failed if needed
-          }
+      // Serve fresh cached series directly; they do not count against the rate limits
+      const cached = await getCachedHistoricalData(tickersToFetch, interval);
+      for (const [ticker, fetched] of Object.entries(cached)) {
+          recordFetched(ticker, fetched);
       }
+
+      const tickersToRequest = tickersToFetch.filter(ticker => !cached[ticker]);
+      console.log(`Fetching data for tickers: ${tickersToRequest.join(', ')} (${concurrency} at a time, rate limited)...`);
+      let rateLimitedCount = 0;
+      await fetchInBatches(tickersToRequest, {
+          concurrency,
+          limiter: yfinanceRateLimiter,
+          fetchBatch: batch => getHistoricalDataBatch(batch, interval),
+          onResult: ({ ticker, value, error }) => {
+              if (value) {
+                  recordFetched(ticker, value);
+                  return;
+              }
+              // Keep going with the other tickers; this one is reported as excluded
+              console.warn(`Fetching ${ticker} failed: ${error}`);
+              if (error?.startsWith('Rate limit reached')) rateLimitedCount++;
+              excludedTickers.push({ ticker, reason: `Fetching price data failed: ${error}` });
+              reportProgress(ticker, 'failed', error);
+          },
+      });
       console.log("Finished fetching stock data attempt.");
 
-      // Check rate limit status *after* the fetching loop
+      // Check rate limit status *after* fetching
       rateLimitWarning = yfinanceRateLimiter.checkThresholds();
+      if (rateLimitedCount > 0) {
+          const skipped = `Rate limit reached: ${rateLimitedCount} ticker(s) were skipped and the optimization used the remaining data.`;
+          rateLimitWarning = rateLimitWarning ? `${rateLimitWarning} ${skipped}` : skipped;
+      }
 
       // Check if *any* real data was successfully fetched. If not, we'll use mocks.
       if (Object.keys(allStockData).length === 0 && tickersToFetch.length > 0) {
@@ -98,27 +303,9 @@ export async function optimizePortfolio(params: OptimizationParams): Promise<Opt
       }
 
   } catch (error) {
-       console.error("Error during rate-limited data fetching:", error);
-       // Handle specific rate limit errors if the wrapper throws them explicitly
-       if (error instanceof Error && error.message.includes('Rate limit reached')) {
-           // Rate limit exceeded, potentially inform the user or handle differently
-           rateLimitWarning = rateLimitWarning ? `${rateLimitWarning} ${error.message}` : error.message;
-           // Decide if we should proceed with partial data or fail completely
-           // For now, we will fall back to mocks if *any* fetch failed severely.
-           dataFetchedSuccessfully = false;
-           console.warn("Rate limit likely reached or other fetching error. Falling back to mock results.");
-       } else if (error instanceof Error && error.message.includes('API Key is missing')) {
-           // API key missing is handled by stock_data.ts returning mocks, but catch here just in case
-           dataFetchedSuccessfully = false;
-           console.warn("API Key is missing. Falling back to mock results.");
-           // Don't throw here, let it proceed to mock data generation
-       }
-       else {
-           // Handle other potential errors during fetching
-           dataFetchedSuccessfully = false;
-           console.error(`Unhandled error fetching stock data: ${error instanceof Error ? error.message : 'Unknown error'}. Falling back to mock results.`);
-           // Don't throw, proceed to mock generation
-       }
+       // Per-ticker failures are handled above; this covers unexpected errors (e.g., the server being unreachable)
+       dataFetchedSuccessfully = false;
+       console.error(`Unhandled error fetching stock data: ${error instanceof Error ? error.message : 'Unknown error'}. Falling back to mock results.`);
   }
   // --- End Rate Limiter and Data Fetching ---
 
@@ -126,45 +313,53 @@ export async function optimizePortfolio(params: OptimizationParams): Promise<Opt
   let results: OptimizationResult;
 
   if (dataFetchedSuccessfully) {
-    // --- REAL OPTIMIZATION LOGIC (Placeholder) ---
-    // In a real scenario, use the data in 'allStockData' to perform
-    // actual portfolio optimization calculations based on `params.method`.
-    // This would involve financial libraries or algorithms.
-    console.log("Performing optimization calculations with fetched data...");
-    // For demonstration, we still generate random results *based on the structure* of real data.
-    // Replace this with your actual calculation logic.
-    let allocations = generateRandomAllocations(Object.keys(allStockData).length || tickersToFetch.length);
-    let metrics = generateRandomMetrics();
-    let efficientFrontierData: RiskReturnChartData[] | undefined = undefined;
-
-    if (params.method === 'Monte Carlo Simulation') {
-      efficientFrontierData = generateEfficientFrontier();
-    } else if (params.method === 'Equal Weighting') {
-      const numAssets = allocations.length;
-       if (numAssets > 0) {
-          const equalAllocation = 100 / numAssets;
-          allocations = allocations.map(alloc => ({ ...alloc, allocation: parseFloat(equalAllocation.toFixed(2)) }));
-          // Adjust last asset to ensure sum is exactly 100 due to potential floating point inaccuracies
-          let sum = allocations.slice(0, -1).reduce((acc, curr) => acc + curr.allocation, 0);
-          if(allocations.length > 0) { // Ensure there is a last asset
-            allocations[allocations.length - 1].allocation = parseFloat((100 - sum).toFixed(2));
-          }
-      } else {
-          allocations = []; // Handle case with zero assets
+    // --- REAL OPTIMIZATION LOGIC ---
+    if (params.method === 'Black-Litterman' || params.filters.marketCapMin !== null) {
+      // Market caps that cannot be fetched stay null and are reported as unverified by screening
+      const marketCapResults = await fetchInBatches(Object.keys(allStockData), {
+        concurrency,
+        limiter: yfinanceRateLimiter,
+        fetchBatch: getMarketCapBatch,
+      });
+      for (const { ticker, value } of marketCapResults) {
+        marketCaps[ticker] = value ?? null;
       }
     }
-     results = {
-        allocations,
-        metrics,
-        efficientFrontierData
-     };
-     console.log("Generated results based on fetched data structure.");
+
+    const benchmark = params.benchmark ? await fetchBenchmark(params.benchmark, interval, allStockData, optimizationWarnings) : undefined;
+
+    // Screen the universe against the market cap and volume filters
+    const screening = screenTickers(allStockData, marketCaps, params.filters);
+    excludedTickers.push(...screening.excluded);
+    for (const { ticker } of screening.excluded) {
+      delete allStockData[ticker];
+    }
+    if (screening.unverified.length > 0) {
+      optimizationWarnings.push(`Market cap unavailable for ${screening.unverified.join(', ')}; these tickers were not screened by market cap.`);
+    }
+    if (screening.passed.length === 0) {
+      throw new Error(`No tickers passed the filters. ${excludedTickers.map(e => `${e.ticker}: ${e.reason}`).join(' ')}`);
+    }
+
+    console.log(`Performing optimization calculations with fetched data for ${screening.passed.length} tickers...`);
+    const optimizeStartedAt = Date.now();
+    onProgress?.({ stage: 'optimizing', method: params.method, iteration: 0, totalIterations: 1 });
+    results = await runOptimizationInWorker(params, { stockData: allStockData, marketCaps, benchmark }, optimizationWarnings, (iteration, totalIterations) => {
+      onProgress?.({
+        stage: 'optimizing',
+        method: params.method,
+        iteration,
+        totalIterations,
+        etaMs: estimateRemainingMs(optimizeStartedAt, iteration, totalIterations),
+      });
+    });
+    console.log(`Optimization complete: ${results.allocations.length} assets allocated.`);
     // --- End REAL OPTIMIZATION LOGIC ---
   } else {
     // --- Mock Result Generation (Fallback) ---
     console.log("Generating mock optimization results due to data fetching issues.");
     results = {
-      allocations: generateRandomAllocations(tickersToFetch.length),
+      allocations: generateRandomAllocations(MOCK_ASSETS.slice(0, tickersToFetch.length)),
       metrics: generateRandomMetrics(),
       efficientFrontierData: params.method === 'Monte Carlo Simulation' ? generateEfficientFrontier() : undefined,
     };
@@ -174,25 +369,32 @@ export async function optimizePortfolio(params: OptimizationParams): Promise<Opt
 
 
   // Return results and any warning
+  const warning = [rateLimitWarning, ...optimizationWarnings].filter(Boolean).join(' ');
   return {
       results,
-      warning: rateLimitWarning
+      warning: warning || undefined,
+      excludedTickers,
+      dataSources,
+      placeholderResults: !dataFetchedSuccessfully
   };
 }
 
 /**
  * Processes uploaded ticker files.
- * Currently only validates file types (CSV/TXT) and returns their names.
- * In a real scenario, this might involve parsing files server-side or more complex validation.
+ * Validates file types (CSV/TXT), reads each file's contents and parses the ticker
+ * symbols out of it. CSV files have their ticker column auto-detected; TXT files
+ * are read as a list of symbols. Tickers are normalized and de-duplicated across files.
  * @param files - An array of File objects uploaded by the user.
- * @returns A promise resolving to an object containing processed file names and a status message.
+ * @returns A promise resolving to the parsed tickers, malformed rows and a status message.
+ * @throws An error if only files of the wrong type were uploaded.
  */
-export async function uploadTickers(files: File[]): Promise<{processedFileNames: string[], message: string}> {
+export async function uploadTickers(files: File[]): Promise<TickerUploadResult> {
   console.log(`Processing ${files.length} uploaded files...`);
-  // Removed artificial delay
 
   const processedFileNames: string[] = [];
-  let invalidFiles: string[] = [];
+  const invalidFiles: string[] = [];
+  const malformedRows: MalformedTickerRow[] = [];
+  let parsedRows: TickerData[] = [];
 
   for (const file of files) {
     console.log('Validating file:', file.name, file.size, file.type);
@@ -200,32 +402,43 @@ export async function uploadTickers(files: File[]): Promise<{processedFileNames:
     if (!file.name.toLowerCase().endsWith('.csv') && !file.name.toLowerCase().endsWith('.txt')) {
       invalidFiles.push(file.name);
       console.warn(`Invalid file type for ${file.name}. Allowed types: CSV, TXT.`);
-    } else {
-      processedFileNames.push(file.name); // Store the original name for reference
+      continue;
     }
+
+    const parsed = parseTickerFile(file.name, await file.text());
+    parsedRows = parsedRows.concat(parsed.tickers);
+    malformedRows.push(...parsed.malformedRows);
+    processedFileNames.push(file.name);
+    console.log(`Parsed ${parsed.tickers.length} tickers from ${file.name} (${parsed.malformedRows.length} malformed rows).`);
+  }
+
+  if (processedFileNames.length === 0 && invalidFiles.length > 0) {
+    // If only invalid files were uploaded
+    throw new Error(`Invalid file type(s): ${invalidFiles.join(', ')}. Please upload only CSV or TXT files.`);
   }
 
+  const tickers = dedupeTickers(parsedRows);
   let message = "";
-  if (processedFileNames.length > 0) {
-      message = `${processedFileNames.length} valid file(s) ready for processing: ${processedFileNames.join(', ')}.`;
-       if (invalidFiles.length > 0) {
-            message += ` Skipped invalid files (wrong type): ${invalidFiles.join(', ')}.`;
-       }
-  } else if (files.length > 0 && invalidFiles.length > 0) {
-       // If only invalid files were uploaded
-       throw new Error(`Invalid file type(s): ${invalidFiles.join(', ')}. Please upload only CSV or TXT files.`);
-  } else if (files.length === 0){
-     message = "No files were uploaded.";
-     // Let the UI handle the state where no files are present
+  if (files.length === 0) {
+    message = "No files were uploaded.";
   } else {
-     // This case should ideally not be reached if the above logic is sound
-     message = "No valid files found to process.";
+    message = `Found ${tickers.length} unique ticker(s) in ${processedFileNames.length} file(s).`;
+    if (parsedRows.length > tickers.length) {
+      message += ` Removed ${parsedRows.length - tickers.length} duplicate(s).`;
+    }
+    if (malformedRows.length > 0) {
+      message += ` Skipped ${malformedRows.length} malformed row(s).`;
+    }
+    if (invalidFiles.length > 0) {
+      message += ` Skipped invalid files (wrong type): ${invalidFiles.join(', ')}.`;
+    }
   }
 
-  console.log("File validation complete. Message:", message);
-  // Return the names of the files deemed valid (by extension)
+  console.log("File parsing complete. Message:", message);
   return {
+    tickers,
     processedFileNames,
+    malformedRows,
     message
   };
 }
@@ -0,0 +1,239 @@
+// src/lib/backtest.ts
+
+/**
+ * @fileOverview Historical backtest of a set of portfolio weights.
+ * Invests the target weights at the start of the aligned return series, lets the
+ * positions drift with their returns and trades them back to target on the chosen
+ * schedule: at each month or quarter end, or once any weight drifts past a threshold.
+ * Every trade, including the initial purchase, pays a proportional transaction cost.
+ * In walk-forward mode the targets are re-optimized at every rebalance on a trailing
+ * window of returns, and performance is measured only after the first window.
+ */
+
+import type { BacktestResult, BacktestSettings, EquityCurvePoint, RebalanceFrequency, YearlyReturn } from '@/types/portfolio';
+import type { ReturnSeries, Vector } from '@/lib/portfolio-math';
+import { annualizedGrowthRate, maximumDrawdown, sampleStandardDeviation } from '@/lib/risk-metrics';
+
+export const DEFAULT_BACKTEST_SETTINGS: BacktestSettings = {
+  rebalance: 'quarterly',
+  driftThreshold: 5,
+  transactionCost: 10,
+  walkForward: false,
+  estimationWindow: 60,
+};
+
+// Shortest trailing window (in return periods) a walk-forward re-optimization may use
+export const MIN_ESTIMATION_WINDOW = 12;
+
+// Starting portfolio value of the equity curve
+export const BACKTEST_INITIAL_VALUE = 10000;
+
+// Days of slack when deciding whether the data covers a whole calendar year (holidays, weekends)
+const YEAR_EDGE_TOLERANCE_DAYS = 7;
+
+/**
+ * Describes the rebalancing schedule and cost assumption, for display with the results.
+ */
+export function describeBacktestSettings(settings: BacktestSettings): string {
+  const schedule = {
+    none: 'No rebalancing (buy and hold)',
+    monthly: 'Monthly rebalancing',
+    quarterly: 'Quarterly rebalancing',
+    threshold: `Rebalancing when a weight drifts more than ${settings.driftThreshold} points`,
+  }[settings.rebalance];
+  const costs = `${settings.transactionCost} bps transaction costs`;
+  return settings.walkForward
+    ? `${schedule}, ${costs}, walk-forward re-optimization on the trailing ${settings.estimationWindow} periods`
+    : `${schedule}, ${costs}`;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+// Target weights (decimal) traded into at the start of a return period
+interface TargetWeightsSnapshot {
+  date: string; // Close the trade happened at: the end of the previous period
+  weights: Vector;
+}
+
+function dayOfYear(date: Date): number {
+  return Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86_400_000) + 1;
+}
+
+/**
+ * Whether a calendar rebalance falls between two consecutive period end dates,
+ * i.e. `previous` is the last period of its month (or quarter).
+ */
+function crossesCalendarBoundary(previous: Date, current: Date, frequency: RebalanceFrequency): boolean {
+  if (previous.getUTCFullYear() !== current.getUTCFullYear()) return true;
+  if (frequency === 'monthly') return previous.getUTCMonth() !== current.getUTCMonth();
+  if (frequency === 'quarterly') return Math.floor(previous.getUTCMonth() / 3) !== Math.floor(current.getUTCMonth() / 3);
+  return false;
+}
+
+/**
+ * Compounds the equity curve into calendar-year returns. The first and last years
+ * are flagged as partial when the data starts after or ends before the year does.
+ */
+function calendarYearReturns(curve: EquityCurvePoint[], initialValue: number, periodsPerYear: number): YearlyReturn[] {
+  const yearEnds = new Map<number, number>();
+  for (const point of curve) {
+    yearEnds.set(new Date(point.date).getUTCFullYear(), point.value);
+  }
+
+  const years = Array.from(yearEnds.keys());
+  const firstDate = new Date(curve[0].date);
+  const lastDate = new Date(curve[curve.length - 1].date);
+  const startsMidYear = dayOfYear(firstDate) > 365 / periodsPerYear + YEAR_EDGE_TOLERANCE_DAYS;
+  const endsMidYear = dayOfYear(lastDate) < 365 - YEAR_EDGE_TOLERANCE_DAYS;
+
+  let startValue = initialValue;
+  return years.map((year, index) => {
+    const endValue = yearEnds.get(year)!;
+    const yearly: YearlyReturn = {
+      year,
+      return: round(startValue > 0 ? (endValue / startValue - 1) * 100 : 0),
+      partial: (index === 0 && startsMidYear) || (index === years.length - 1 && endsMidYear),
+    };
+    startValue = endValue;
+    return yearly;
+  });
+}
+
+// Target weights chosen at the start of return period `t`
+type TargetWeights = (t: number) => Vector;
+
+/**
+ * Simulates the portfolio from return period `start` onwards. Targets are fetched at
+ * the start and again at every rebalance, so they may change over time.
+ */
+function simulate(
+  series: ReturnSeries,
+  start: number,
+  settings: BacktestSettings,
+  periodsPerYear: number,
+  targetAt: TargetWeights
+): { result: BacktestResult; targetHistory: TargetWeightsSnapshot[] } {
+  const costRate = Math.max(settings.transactionCost, 0) / 10_000;
+  const driftLimit = Math.max(settings.driftThreshold, 0) / 100;
+  const dates = series.dates.map(date => new Date(date));
+  const targetHistory: TargetWeightsSnapshot[] = [];
+
+  // Initial purchase of every position
+  let target = targetAt(start);
+  targetHistory.push({ date: series.dates[Math.max(start - 1, 0)], weights: target });
+  const initialCost = BACKTEST_INITIAL_VALUE * target.reduce((acc, w) => acc + Math.abs(w), 0) * costRate;
+  let value = BACKTEST_INITIAL_VALUE - initialCost;
+  let holdings = target.map(w => w * value);
+  let transactionCosts = initialCost;
+  let turnover = 0;
+  let rebalances = 0;
+
+  let peak = BACKTEST_INITIAL_VALUE;
+  let previousValue = BACKTEST_INITIAL_VALUE;
+  const periodReturns: Vector = [];
+  const equityCurve: EquityCurvePoint[] = [];
+
+  for (let t = start; t < series.returns.length; t++) {
+    if (t > start && value > 0) {
+      const current = holdings.map(h => h / value);
+      const due = settings.rebalance === 'threshold'
+        ? current.some((w, i) => Math.abs(target[i] - w) > driftLimit)
+        : settings.rebalance !== 'none' && crossesCalendarBoundary(dates[t - 1], dates[t], settings.rebalance);
+      if (due) {
+        target = targetAt(t);
+        targetHistory.push({ date: series.dates[t - 1], weights: target });
+        const traded = current.reduce((acc, w, i) => acc + Math.abs(target[i] - w), 0);
+        const cost = value * traded * costRate;
+        value -= cost;
+        holdings = target.map(w => w * value);
+        transactionCosts += cost;
+        turnover += traded;
+        rebalances++;
+      }
+    }
+
+    holdings = holdings.map((h, i) => h * (1 + series.returns[t][i]));
+    // A wiped-out portfolio stays at zero
+    value = Math.max(holdings.reduce((acc, h) => acc + h, 0), 0);
+    if (value === 0) holdings = holdings.map(() => 0);
+
+    periodReturns.push(previousValue > 0 ? value / previousValue - 1 : 0);
+    previousValue = value;
+    peak = Math.max(peak, value);
+    equityCurve.push({ date: series.dates[t], value: round(value), drawdown: round((value / peak - 1) * 100) });
+  }
+
+  const result: BacktestResult = {
+    settings,
+    initialValue: BACKTEST_INITIAL_VALUE,
+    finalValue: round(value),
+    totalReturn: round((value / BACKTEST_INITIAL_VALUE - 1) * 100),
+    annualizedReturn: round(annualizedGrowthRate(periodReturns, periodsPerYear) * 100),
+    volatility: round(sampleStandardDeviation(periodReturns) * Math.sqrt(periodsPerYear) * 100),
+    maxDrawdown: round(maximumDrawdown(periodReturns, series.dates.slice(start)).maxDrawdown * 100),
+    rebalances,
+    turnover: round(turnover * 100),
+    transactionCosts: round(transactionCosts),
+    equityCurve,
+    yearlyReturns: calendarYearReturns(equityCurve, BACKTEST_INITIAL_VALUE, periodsPerYear),
+  };
+  return { result, targetHistory };
+}
+
+/**
+ * Backtests fixed target weights over an aligned return series.
+ * @param weights Target weights (decimal, summing to 1), in the column order of `series.assets`.
+ * @param series Aligned periodic returns of the assets.
+ * @param settings Rebalancing schedule and transaction cost.
+ * @param periodsPerYear Annualization factor of the series.
+ * @returns The equity curve, yearly returns and summary statistics.
+ * @throws An error if the series has no return periods.
+ */
+export function runBacktest(
+  weights: Vector,
+  series: ReturnSeries,
+  settings: BacktestSettings,
+  periodsPerYear: number
+): BacktestResult {
+  if (series.returns.length === 0) {
+    throw new Error("The backtest needs at least one return period.");
+  }
+  return simulate(series, 0, settings, periodsPerYear, () => weights).result;
+}
+
+/**
+ * Walk-forward backtest: at the start of the out-of-sample period and at every
+ * rebalance, the weights are re-optimized on the trailing `estimationWindow` periods
+ * only, so no trade uses returns from its own future.
+ * @param series Aligned periodic returns of the assets.
+ * @param settings Rebalancing schedule, transaction cost and estimation window.
+ * @param periodsPerYear Annualization factor of the series.
+ * @param optimizeWindow Fits target weights (column order of `series.assets`) to a window of returns.
+ * @returns The out-of-sample backtest with the target weights chosen at each rebalance.
+ * @throws An error if the series is not longer than the estimation window.
+ */
+export function runWalkForwardBacktest(
+  series: ReturnSeries,
+  settings: BacktestSettings,
+  periodsPerYear: number,
+  optimizeWindow: (window: ReturnSeries) => Vector
+): BacktestResult {
+  const window = Math.max(Math.floor(settings.estimationWindow), MIN_ESTIMATION_WINDOW);
+  if (series.returns.length <= window) {
+    throw new Error(`The walk-forward backtest needs more than ${window} return periods; only ${series.returns.length} are available.`);
+  }
+
+  const { result, targetHistory } = simulate(series, window, settings, periodsPerYear, t => optimizeWindow({
+    assets: series.assets,
+    dates: series.dates.slice(t - window, t),
+    returns: series.returns.slice(t - window, t),
+  }));
+  return {
+    ...result,
+    walkForward: {
+      estimationWindow: window,
+      assets: series.assets,
+      targets: targetHistory.map(({ date, weights }) => ({ date, weights: weights.map(w => round(w * 100)) })),
+    },
+  };
+}
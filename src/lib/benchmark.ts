@@ -0,0 +1,183 @@
+// src/lib/benchmark.ts
+
+/**
+ * @fileOverview Benchmark comparison of the optimized portfolio.
+ * The benchmark is a ticker (e.g. an index ETF) or a user-defined portfolio loaded
+ * from a weights file, whose constituents are combined into one value series held
+ * at constant weights. The comparison reports tracking error, information ratio,
+ * Jensen's alpha, beta, up/down capture and the relative growth of both.
+ */
+
+import type { BenchmarkComparison, BenchmarkSettings, BenchmarkWeight, RelativePerformancePoint, StockData } from '@/types/portfolio';
+import type { Vector } from '@/lib/portfolio-math';
+import { alignBenchmarkReturns, betaAgainst, sampleStandardDeviation, type BenchmarkSeries } from '@/lib/risk-metrics';
+import { isValidTicker, normalizeTicker, splitCsvLine, TICKER_COLUMN_NAMES } from '@/lib/ticker-parser';
+
+// Header names recognized as the weight column (compared case-insensitively)
+const WEIGHT_COLUMN_NAMES = ['weight', 'weights', 'allocation', 'percent', '%'];
+
+// Tracking error (decimal) below which the information ratio is undefined (identical series)
+const MIN_TRACKING_ERROR = 1e-8;
+
+// Starting value of the relative performance lines
+const GROWTH_BASE = 100;
+
+export interface ParsedBenchmarkWeights {
+  weights: BenchmarkWeight[]; // Normalized to sum to 100
+  skippedRows: number;        // Rows without a valid ticker or a positive weight
+}
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+function mean(values: Vector): number {
+  return values.reduce((acc, x) => acc + x, 0) / values.length;
+}
+
+/**
+ * Parses a benchmark weights file: a CSV with a ticker column and a weight column.
+ * Weights may be percentages or fractions; they are normalized to sum to 100.
+ * Without recognized headers the first two columns are used.
+ * @param content The file's text content.
+ * @throws An error if the file has no usable holdings.
+ */
+export function parseBenchmarkWeights(content: string): ParsedBenchmarkWeights {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error("The benchmark weights file is empty.");
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map(name => name.trim().toLowerCase());
+  const tickerColumn = header.findIndex(name => TICKER_COLUMN_NAMES.includes(name));
+  const weightColumn = header.findIndex(name => WEIGHT_COLUMN_NAMES.includes(name));
+  const hasHeader = tickerColumn >= 0 || weightColumn >= 0;
+  const assetIndex = tickerColumn >= 0 ? tickerColumn : 0;
+  const weightIndex = weightColumn >= 0 ? weightColumn : assetIndex === 0 ? 1 : 0;
+
+  const totals = new Map<string, number>();
+  let skippedRows = 0;
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const cells = splitCsvLine(line, delimiter);
+    const asset = normalizeTicker(cells[assetIndex] ?? '');
+    const weight = parseFloat((cells[weightIndex] ?? '').replace('%', ''));
+    if (!isValidTicker(asset) || !(weight > 0)) {
+      skippedRows++;
+      continue;
+    }
+    // Repeated tickers add up
+    totals.set(asset, (totals.get(asset) ?? 0) + weight);
+  }
+  if (totals.size === 0) {
+    throw new Error("No holdings with a ticker and a positive weight were found in the benchmark weights file.");
+  }
+
+  const total = Array.from(totals.values()).reduce((acc, w) => acc + w, 0);
+  const weights = Array.from(totals, ([asset, weight]) => ({ asset, weight: (weight / total) * 100 }));
+  return { weights, skippedRows };
+}
+
+/**
+ * Display name of a benchmark.
+ */
+export function describeBenchmark(settings: BenchmarkSettings): string {
+  return settings.source === 'ticker' ? settings.ticker : `Custom (${settings.fileName})`;
+}
+
+/**
+ * Combines the constituents of a benchmark portfolio into one value series,
+ * rebalanced to the target weights every period, on the dates every constituent has a price.
+ * @param constituents Historical bars keyed by ticker.
+ * @param weights Target weights (any scale); constituents without bars are left out and the rest renormalized.
+ * @returns Synthetic bars whose prices are the portfolio's value, starting at 100.
+ */
+export function combineBenchmarkBars(constituents: Record<string, StockData[]>, weights: BenchmarkWeight[]): StockData[] {
+  const held = weights.filter(({ asset }) => constituents[asset]?.length);
+  const total = held.reduce((acc, { weight }) => acc + weight, 0);
+  if (held.length === 0 || !(total > 0)) return [];
+
+  const prices = held.map(({ asset }) => new Map(
+    constituents[asset].filter(bar => bar.adjClose > 0).map(bar => [bar.date, bar.adjClose])
+  ));
+  const dates = Array.from(prices[0].keys())
+    .filter(date => prices.every(series => series.has(date)))
+    .sort();
+
+  let value = GROWTH_BASE;
+  return dates.map((date, t) => {
+    if (t > 0) {
+      const periodReturn = held.reduce(
+        (acc, { weight }, i) => acc + (weight / total) * (prices[i].get(date)! / prices[i].get(dates[t - 1])! - 1),
+        0
+      );
+      value *= 1 + periodReturn;
+    }
+    return { date, open: value, high: value, low: value, close: value, adjClose: value, volume: 0 };
+  });
+}
+
+/**
+ * Compares the portfolio's return series with a benchmark over their overlapping periods.
+ * @param returns The portfolio's periodic returns.
+ * @param dates Date at the end of each period.
+ * @param riskFreeRates Per-period risk-free rates (decimal) aligned with `returns`, for alpha.
+ * @param periodsPerYear Annualization factor of the series.
+ * @param benchmark The fetched benchmark series.
+ * @returns The comparison, or undefined with fewer than two overlapping periods.
+ */
+export function compareWithBenchmark(
+  returns: Vector,
+  dates: string[],
+  riskFreeRates: Vector,
+  periodsPerYear: number,
+  benchmark: BenchmarkSeries
+): BenchmarkComparison | undefined {
+  const benchmarkReturns = alignBenchmarkReturns(dates, benchmark.bars);
+  const overlap = returns.map((_, t) => t).filter(t => benchmarkReturns[t] !== null);
+  const fit = betaAgainst(returns, benchmarkReturns);
+  if (!fit || overlap.length < 2) return undefined;
+
+  const portfolio = overlap.map(t => returns[t]);
+  const market = overlap.map(t => benchmarkReturns[t]!);
+  const riskFree = overlap.map(t => riskFreeRates[t]);
+
+  const active = portfolio.map((r, i) => r - market[i]);
+  const trackingError = sampleStandardDeviation(active) * Math.sqrt(periodsPerYear);
+  const excessPortfolio = mean(portfolio.map((r, i) => r - riskFree[i]));
+  const excessMarket = mean(market.map((r, i) => r - riskFree[i]));
+  const alpha = (excessPortfolio - fit.beta * excessMarket) * periodsPerYear;
+
+  // Ratio of average returns over the periods where the benchmark rose (or fell)
+  const capture = (inRegime: (benchmarkReturn: number) => boolean): number | undefined => {
+    const periods = market.map((_, i) => i).filter(i => inRegime(market[i]));
+    if (periods.length === 0) return undefined;
+    const benchmarkMean = mean(periods.map(i => market[i]));
+    return benchmarkMean !== 0 ? (mean(periods.map(i => portfolio[i])) / benchmarkMean) * 100 : undefined;
+  };
+  const upCapture = capture(r => r > 0);
+  const downCapture = capture(r => r < 0);
+
+  let portfolioValue = GROWTH_BASE;
+  let benchmarkValue = GROWTH_BASE;
+  const relativePerformance: RelativePerformancePoint[] = overlap.map((t, i) => {
+    portfolioValue *= 1 + portfolio[i];
+    benchmarkValue *= 1 + market[i];
+    return {
+      date: dates[t],
+      portfolio: round(portfolioValue),
+      benchmark: round(benchmarkValue),
+      relative: round((portfolioValue / benchmarkValue) * GROWTH_BASE),
+    };
+  });
+
+  return {
+    benchmark: benchmark.name,
+    periods: overlap.length,
+    trackingError: round(trackingError * 100),
+    informationRatio: trackingError > MIN_TRACKING_ERROR ? round((mean(active) * periodsPerYear) / trackingError) : undefined,
+    alpha: round(alpha * 100),
+    beta: round(fit.beta),
+    upCapture: upCapture !== undefined ? round(upCapture) : undefined,
+    downCapture: downCapture !== undefined ? round(downCapture) : undefined,
+    relativePerformance,
+  };
+}
@@ -0,0 +1,44 @@
+// src/lib/constraints.test.ts
+
+/**
+ * @fileOverview Tests for the feasible-set projection and its cost inside the solvers.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildWeightBounds, projectOntoFeasibleSet, satisfiesBounds } from '@/lib/constraints';
+import { maximumSharpePortfolio } from '@/lib/optimizers/mean-variance';
+import { createSeededRandom } from '@/lib/random';
+import { syntheticRiskModel } from '@/lib/testing/synthetic-model';
+
+const ASSETS = ['AAA', 'BBB', 'CCC', 'DDD', 'EEE', 'FFF'];
+
+test('projection with group caps is feasible and no farther than other feasible points', () => {
+  const bounds = buildWeightBounds(ASSETS, {
+    assetBounds: [],
+    groups: [{ name: 'Tech', assets: ['AAA', 'BBB'], max: 30 }, { name: 'Energy', assets: ['CCC', 'DDD'], max: 40 }],
+  }, []);
+  const v = [0.9, 0.5, 0.4, -0.2, 0.1, 0.05];
+  const projected = projectOntoFeasibleSet(v, bounds);
+  assert.ok(satisfiesBounds(projected, bounds));
+
+  const distance = (w: number[]) => w.reduce((acc, x, i) => acc + (x - v[i]) ** 2, 0);
+  const random = createSeededRandom(3);
+  for (let k = 0; k < 200; k++) {
+    const other = projectOntoFeasibleSet(ASSETS.map(() => random() * 2 - 0.5), bounds);
+    assert.ok(distance(projected) <= distance(other) + 1e-9);
+  }
+});
+
+test('maximum Sharpe with a group cap solves quickly', () => {
+  const model = syntheticRiskModel(ASSETS);
+  // Cap the two highest-returning assets so the group constraint binds
+  const leaders = [...ASSETS].sort((a, b) => model.expectedReturns[ASSETS.indexOf(b)] - model.expectedReturns[ASSETS.indexOf(a)]).slice(0, 2);
+  const bounds = buildWeightBounds(ASSETS, { assetBounds: [], groups: [{ name: 'Leaders', assets: leaders, max: 30 }] }, []);
+  const started = Date.now();
+  const weights = maximumSharpePortfolio(model, 0.02, bounds);
+  // Took several seconds while Dykstra's algorithm ran to convergence inside every gradient step
+  assert.ok(Date.now() - started < 1500, `took ${Date.now() - started} ms`);
+  assert.ok(satisfiesBounds(weights, bounds));
+  assert.ok(Math.abs(leaders.reduce((acc, ticker) => acc + weights[ASSETS.indexOf(ticker)], 0) - 0.3) < 1e-6);
+});
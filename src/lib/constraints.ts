@@ -0,0 +1,487 @@
+// src/lib/constraints.ts
+
+/**
+ * @fileOverview Portfolio weight constraints shared by the optimizers.
+ * Per-asset bounds, the full-investment budget, the gross exposure limit of
+ * portfolios with short positions and caps on non-overlapping groups (sectors or
+ * custom tags) are handled by one exact projection; caps on overlapping groups are
+ * combined with it by Dykstra's alternating projections. The maximum number of
+ * holdings is not convex and is enforced heuristically by `withMaxHoldings`.
+ */
+
+import type { PortfolioConstraints, TickerData } from '@/types/portfolio';
+import type { Vector } from '@/lib/portfolio-math';
+
+// Cap on the combined weight of a group of assets (decimal)
+export interface GroupBound {
+  name: string;
+  members: number[]; // Asset indices
+  max: number;
+}
+
+// Weight limits (decimal, e.g. 0.25 for 25%). Negative lower bounds allow short positions.
+export interface WeightBounds {
+  lower: Vector;
+  upper: Vector;
+  groups?: GroupBound[];
+  maxGrossExposure?: number; // Limit on Σ|w| (e.g. 1.6 for a 130/30 portfolio)
+}
+
+// Weights below this are treated as not held
+const HOLDING_THRESHOLD = 1e-4;
+// Slack allowed when checking whether a constraint is satisfied or binding
+const CONSTRAINT_TOLERANCE = 1e-4;
+const DYKSTRA_MAX_ITERATIONS = 1000;
+const DYKSTRA_TOLERANCE = 1e-12;
+const GROSS_BRACKET_STEPS = 60;   // Doublings of θ while bracketing the gross exposure limit
+const GROSS_SEARCH_STEPS = 100;
+const GROSS_TOLERANCE = 1e-12;
+// Gross exposure limit (percent) used when short selling is enabled without one: a 130/30 portfolio
+export const DEFAULT_GROSS_EXPOSURE = 160;
+
+// Uploaded CSV columns that can assign a ticker to a group
+const GROUP_COLUMNS = ['sector', 'industry', 'group', 'tag'];
+
+/**
+ * Default long-only, fully-invested bounds (0% to 100% per asset).
+ */
+export function longOnlyBounds(numAssets: number): WeightBounds {
+  return { lower: new Array(numAssets).fill(0), upper: new Array(numAssets).fill(1) };
+}
+
+/**
+ * Checks whether the bounds are just the long-only defaults.
+ */
+export function isLongOnly(bounds: WeightBounds): boolean {
+  return !bounds.groups?.length && bounds.maxGrossExposure === undefined && bounds.lower.every(x => x === 0) && bounds.upper.every(x => x === 1);
+}
+
+/**
+ * Drops short positions from the bounds: negative lower bounds become 0 and the
+ * gross exposure limit is removed (long-only weights have a gross exposure of 100%).
+ */
+export function withoutShortPositions(bounds: WeightBounds): WeightBounds {
+  return {
+    lower: bounds.lower.map(l => Math.max(l, 0)),
+    upper: bounds.upper.map(u => Math.min(Math.max(u, 0), 1)),
+    groups: bounds.groups,
+  };
+}
+
+/**
+ * Checks whether the bounds permit any short position.
+ */
+export function allowsShortPositions(bounds: WeightBounds): boolean {
+  return bounds.lower.some(l => l < 0);
+}
+
+/**
+ * Minimizer of ½(w - y)² + θ|w| over [lower, upper]: y soft-thresholded by θ, then clipped.
+ */
+function shrinkAndClip(y: number, theta: number, lower: number, upper: number): number {
+  const shrunk = Math.sign(y) * Math.max(Math.abs(y) - theta, 0);
+  return Math.min(upper, Math.max(lower, shrunk));
+}
+
+/**
+ * Finds the shift s at which Σ_{i in members} shrinkAndClip(v_i - max(s, floor_i), θ) = target.
+ * The sum is piecewise linear and non-increasing in s, so the linear piece holding the
+ * solution is located among the breakpoints by binary search and s is interpolated within it exactly.
+ * @param floors Per-asset shift the result cannot go below (a binding group cap's shift), if any.
+ */
+function exactShift(v: Vector, lower: Vector, upper: Vector, theta: number, members: number[], target: number, floors?: Vector): number {
+  const shiftOf = (i: number, shift: number) => (floors ? Math.max(shift, floors[i]) : shift);
+  const total = (shift: number) => members.reduce((acc, i) => acc + shrinkAndClip(v[i] - shiftOf(i, shift), theta, lower[i], upper[i]), 0);
+  const breakpoints = Float64Array.from([
+    ...members.flatMap(i => [upper[i] + theta, upper[i] - theta, lower[i] + theta, lower[i] - theta, theta, -theta].map(y => v[i] - y)),
+    ...(floors ? members.map(i => floors[i]).filter(Number.isFinite) : []),
+  ]).sort();
+
+  // Every weight sits at its upper bound (or its group at its cap) at the first breakpoint and at its lower bound at the last
+  let lo = 0;
+  let hi = breakpoints.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (total(breakpoints[mid]) >= target) lo = mid;
+    else hi = mid;
+  }
+  const loTotal = total(breakpoints[lo]);
+  const hiTotal = total(breakpoints[hi]);
+  if (loTotal === hiTotal) return breakpoints[lo];
+  return breakpoints[lo] + ((loTotal - target) * (breakpoints[hi] - breakpoints[lo])) / (loTotal - hiTotal);
+}
+
+/**
+ * Euclidean projection of `v` onto { w : Σw = 1, lower ≤ w ≤ upper, Σ|w| ≤ radius } and
+ * the caps of non-overlapping groups. The projection has the form
+ * clip(S_θ(v - max(τ, s_g)), lower, upper): S_θ soft-thresholds by the smallest θ ≥ 0
+ * that meets the gross limit (0 without one), τ meets the budget and s_g is the shift
+ * that brings a group down to its cap when the budget shift alone would not.
+ * The gross exposure falls as θ grows and is piecewise linear in it, so θ is found by
+ * false position (Illinois variant).
+ */
+function projectOntoBudgetSet(v: Vector, lower: Vector, upper: Vector, groups: GroupBound[], radius?: number): Vector {
+  const assets = v.map((_, i) => i);
+  const solve = (theta: number) => {
+    const floors = new Array(v.length).fill(-Infinity);
+    for (const group of groups) {
+      // A cap the members' upper bounds already respect never binds
+      if (group.members.reduce((acc, i) => acc + upper[i], 0) <= group.max) continue;
+      const shift = exactShift(v, lower, upper, theta, group.members, group.max);
+      for (const i of group.members) floors[i] = shift;
+    }
+    const tau = exactShift(v, lower, upper, theta, assets, 1, floors);
+    return v.map((x, i) => shrinkAndClip(x - Math.max(tau, floors[i]), theta, lower[i], upper[i]));
+  };
+
+  const unthresholded = solve(0);
+  if (radius === undefined) return unthresholded;
+  const excess = (w: Vector) => grossExposure(w) - radius;
+  let loTheta = 0;
+  let loExcess = excess(unthresholded);
+  if (loExcess <= 0) return unthresholded;
+
+  let hiTheta = Math.max(...v.map(Math.abs), 1);
+  let hiWeights = solve(hiTheta);
+  let hiExcess = excess(hiWeights);
+  for (let k = 0; k < GROSS_BRACKET_STEPS && hiExcess > 0; k++) {
+    loTheta = hiTheta;
+    loExcess = hiExcess;
+    hiTheta *= 2;
+    hiWeights = solve(hiTheta);
+    hiExcess = excess(hiWeights);
+  }
+
+  let side = 0;
+  for (let k = 0; k < GROSS_SEARCH_STEPS && hiExcess < -GROSS_TOLERANCE && hiTheta - loTheta > GROSS_TOLERANCE * hiTheta; k++) {
+    const theta = hiTheta - (hiExcess * (hiTheta - loTheta)) / (hiExcess - loExcess);
+    const weights = solve(theta);
+    const thetaExcess = excess(weights);
+    if (Math.abs(thetaExcess) <= GROSS_TOLERANCE) return weights;
+    if (thetaExcess > 0) {
+      loTheta = theta;
+      loExcess = thetaExcess;
+      if (side === -1) hiExcess /= 2;
+      side = -1;
+    } else {
+      hiTheta = theta;
+      hiWeights = weights;
+      hiExcess = thetaExcess;
+      if (side === 1) loExcess /= 2;
+      side = 1;
+    }
+  }
+  return hiWeights;
+}
+
+/**
+ * Projection onto the half-space { w : Σ_{i in group} w_i ≤ max }.
+ */
+function projectOntoGroupCap(v: Vector, group: GroupBound): Vector {
+  const excess = group.members.reduce((acc, i) => acc + v[i], 0) - group.max;
+  if (excess <= 0) return v;
+  const shift = excess / group.members.length;
+  const projected = [...v];
+  for (const i of group.members) projected[i] -= shift;
+  return projected;
+}
+
+/**
+ * Builds the Euclidean projection onto the feasible weights described by `bounds`.
+ * Caps on groups that share no assets (e.g. sectors) are part of the exact projection.
+ * Caps on groups that overlap an earlier one are combined with it by Dykstra's
+ * algorithm, which converges to the projection onto the intersection. Iterative
+ * solvers project many nearby points, so the returned function keeps Dykstra's
+ * corrections (its dual variables) from one call to the next as a warm start.
+ */
+export function feasibleSetProjector(bounds: WeightBounds): (v: Vector) => Vector {
+  const disjoint: GroupBound[] = [];
+  const overlapping: GroupBound[] = [];
+  const grouped = new Set<number>();
+  for (const group of bounds.groups ?? []) {
+    if (group.members.some(i => grouped.has(i))) {
+      overlapping.push(group);
+    } else {
+      disjoint.push(group);
+      group.members.forEach(i => grouped.add(i));
+    }
+  }
+  const projectOntoBase = (x: Vector) => projectOntoBudgetSet(x, bounds.lower, bounds.upper, disjoint, bounds.maxGrossExposure);
+  if (overlapping.length === 0) return projectOntoBase;
+
+  // The exact projection goes last so the result always sums to 1 within the asset bounds
+  const projections: ((x: Vector) => Vector)[] = [
+    ...overlapping.map(group => (x: Vector) => projectOntoGroupCap(x, group)),
+    projectOntoBase,
+  ];
+  const corrections: Vector[] = projections.map(() => new Array(bounds.lower.length).fill(0));
+  return (v: Vector) => {
+    // Dykstra keeps x = v - Σ corrections, so a warm start begins there rather than at v
+    let x = v.map((value, i) => corrections.reduce((acc, correction) => acc - correction[i], value));
+    for (let iter = 0; iter < DYKSTRA_MAX_ITERATIONS; iter++) {
+      // The iterate can stall for a round while the corrections still move, so both must settle
+      let change = 0;
+      projections.forEach((project, k) => {
+        const shifted = x.map((value, i) => value + corrections[k][i]);
+        const next = project(shifted);
+        const correction = shifted.map((value, i) => value - next[i]);
+        change = Math.max(change, ...next.map((value, i) => Math.abs(value - x[i])), ...correction.map((value, i) => Math.abs(value - corrections[k][i])));
+        corrections[k] = correction;
+        x = next;
+      });
+      if (change < DYKSTRA_TOLERANCE) break;
+    }
+    return x;
+  };
+}
+
+/**
+ * Euclidean projection of `v` onto the feasible weights described by `bounds`.
+ * Solvers that project repeatedly should reuse one `feasibleSetProjector` instead.
+ */
+export function projectOntoFeasibleSet(v: Vector, bounds: WeightBounds): Vector {
+  return feasibleSetProjector(bounds)(v);
+}
+
+/**
+ * Lists the constraints `weights` violate by more than the tolerance.
+ */
+function constraintViolations(weights: Vector, bounds: WeightBounds): string[] {
+  const violations: string[] = [];
+  const total = weights.reduce((acc, x) => acc + x, 0);
+  if (Math.abs(total - 1) > CONSTRAINT_TOLERANCE) violations.push(`weights sum to ${(total * 100).toFixed(2)}%`);
+  weights.forEach((w, i) => {
+    if (w < bounds.lower[i] - CONSTRAINT_TOLERANCE || w > bounds.upper[i] + CONSTRAINT_TOLERANCE) {
+      violations.push(`asset ${i + 1} is outside its bounds`);
+    }
+  });
+  for (const group of bounds.groups ?? []) {
+    const groupTotal = group.members.reduce((acc, i) => acc + weights[i], 0);
+    if (groupTotal > group.max + CONSTRAINT_TOLERANCE) violations.push(`group "${group.name}" exceeds its cap`);
+  }
+  if (bounds.maxGrossExposure !== undefined && grossExposure(weights) > bounds.maxGrossExposure + CONSTRAINT_TOLERANCE) {
+    violations.push('gross exposure exceeds its limit');
+  }
+  return violations;
+}
+
+/**
+ * Checks whether `weights` satisfy the bounds within the tolerance.
+ */
+export function satisfiesBounds(weights: Vector, bounds: WeightBounds): boolean {
+  return constraintViolations(weights, bounds).length === 0;
+}
+
+/**
+ * Validates that the bounds admit a fully invested portfolio.
+ * @throws An error if the weight limits cannot sum to 100% or the group caps cannot all be met.
+ */
+export function assertFeasible(bounds: WeightBounds): void {
+  const minTotal = bounds.lower.reduce((acc, x) => acc + x, 0);
+  const maxTotal = bounds.upper.reduce((acc, x) => acc + x, 0);
+  if (minTotal > 1 + 1e-9 || maxTotal < 1 - 1e-9) {
+    throw new Error(`Weight bounds are infeasible: lower bounds sum to ${(minTotal * 100).toFixed(2)}% and upper bounds to ${(maxTotal * 100).toFixed(2)}%, but weights must sum to 100%.`);
+  }
+  for (const group of bounds.groups ?? []) {
+    const groupMinimum = group.members.reduce((acc, i) => acc + bounds.lower[i], 0);
+    if (groupMinimum > group.max + 1e-9) {
+      throw new Error(`Constraints are infeasible: the minimum weights in group "${group.name}" sum to ${(groupMinimum * 100).toFixed(2)}%, above its ${(group.max * 100).toFixed(2)}% cap.`);
+    }
+  }
+  if (bounds.maxGrossExposure !== undefined && bounds.maxGrossExposure < 1) {
+    throw new Error(`Constraints are infeasible: a gross exposure limit of ${(bounds.maxGrossExposure * 100).toFixed(2)}% is below the 100% net investment.`);
+  }
+  if (bounds.groups?.length || bounds.maxGrossExposure !== undefined) {
+    const n = bounds.lower.length;
+    const violations = constraintViolations(projectOntoFeasibleSet(new Array(n).fill(1 / n), bounds), bounds);
+    if (violations.length > 0) {
+      throw new Error(`Constraints are infeasible: no fully invested portfolio satisfies them (${violations.join(', ')}).`);
+    }
+  }
+}
+
+/**
+ * Sum of absolute weights: long plus short exposure.
+ */
+export function grossExposure(weights: Vector): number {
+  return weights.reduce((acc, w) => acc + Math.abs(w), 0);
+}
+
+/**
+ * Counts the positions held (weights above the holding threshold).
+ */
+export function countHoldings(weights: Vector): number {
+  return weights.filter(w => Math.abs(w) > HOLDING_THRESHOLD).length;
+}
+
+/**
+ * Enforces a maximum number of holdings. Solves with the given bounds, then
+ * repeatedly excludes the smallest positions (long or short; both bounds set to 0) and
+ * re-solves until at most `maxHoldings` remain. Assets with a positive minimum weight
+ * are never excluded.
+ * @param solve Optimizer to run under the given bounds.
+ * @returns The weights and the indices of the excluded assets.
+ * @throws An error if more assets have a positive minimum weight than `maxHoldings` allows.
+ */
+export function withMaxHoldings(
+  solve: (bounds: WeightBounds) => Vector,
+  bounds: WeightBounds,
+  maxHoldings?: number
+): { weights: Vector; excluded: number[] } {
+  let current = bounds;
+  let weights = solve(current);
+  if (maxHoldings === undefined || countHoldings(weights) <= maxHoldings) {
+    return { weights, excluded: [] };
+  }
+
+  const required = bounds.lower.filter(x => x > 0).length;
+  if (required > maxHoldings) {
+    throw new Error(`Constraints are infeasible: ${required} assets have a minimum weight, but at most ${maxHoldings} holdings are allowed.`);
+  }
+
+  const excluded: number[] = [];
+  while (countHoldings(weights) > maxHoldings) {
+    const candidates = weights
+      .map((w, i) => ({ w: Math.abs(w), i }))
+      .filter(({ w, i }) => w > HOLDING_THRESHOLD && current.lower[i] <= 0)
+      .sort((a, b) => a.w - b.w);
+    // Drop half of the surplus at a time to limit the number of re-solves
+    const surplus = countHoldings(weights) - maxHoldings;
+    const toDrop = candidates.slice(0, Math.max(1, Math.ceil(surplus / 2))).map(({ i }) => i);
+    excluded.push(...toDrop);
+    current = {
+      ...current,
+      lower: current.lower.map((l, i) => (toDrop.includes(i) ? 0 : l)),
+      upper: current.upper.map((u, i) => (toDrop.includes(i) ? 0 : u)),
+    };
+    assertFeasible(current);
+    weights = solve(current);
+  }
+  return { weights, excluded };
+}
+
+/**
+ * Converts user constraints (percentages, tickers) into solver bounds for `assets`.
+ * Bounds on tickers outside the universe are ignored with a warning. With short
+ * selling, assets default to the widest weights the gross limit permits: a gross
+ * exposure G allows (G - 1) / 2 in total shorts and (G + 1) / 2 in total longs.
+ * @param warnings Collects non-fatal issues to report back to the user.
+ */
+export function buildWeightBounds(assets: string[], constraints: PortfolioConstraints | undefined, warnings: string[]): WeightBounds {
+  const bounds = longOnlyBounds(assets.length);
+  if (!constraints) return bounds;
+
+  if (constraints.allowShortSelling) {
+    const gross = (constraints.maxGrossExposure ?? DEFAULT_GROSS_EXPOSURE) / 100;
+    if (gross < 1) {
+      throw new Error(`The gross exposure limit (${gross * 100}%) must be at least 100%.`);
+    }
+    bounds.maxGrossExposure = gross;
+    bounds.lower.fill(-(gross - 1) / 2);
+    bounds.upper.fill((gross + 1) / 2);
+  }
+
+  for (const bound of constraints.assetBounds) {
+    const index = assets.indexOf(bound.asset);
+    if (index < 0) {
+      warnings.push(`Weight bounds for ${bound.asset} were ignored because it is not in the optimized universe.`);
+      continue;
+    }
+    if (bound.min !== undefined) bounds.lower[index] = bound.min / 100;
+    if (bound.max !== undefined) bounds.upper[index] = bound.max / 100;
+    if (bounds.lower[index] > bounds.upper[index]) {
+      throw new Error(`The minimum weight for ${bound.asset} (${bound.min}%) is above its maximum (${bound.max}%).`);
+    }
+  }
+
+  const groups: GroupBound[] = [];
+  for (const group of constraints.groups) {
+    const members = group.assets.map(asset => assets.indexOf(asset)).filter(index => index >= 0);
+    if (members.length === 0) {
+      warnings.push(`Group cap "${group.name}" was ignored because none of its tickers are in the optimized universe.`);
+      continue;
+    }
+    groups.push({ name: group.name, members, max: group.max / 100 });
+  }
+  if (groups.length > 0) bounds.groups = groups;
+  return bounds;
+}
+
+/**
+ * Fills in the members of groups entered without tickers from the uploaded files:
+ * a ticker belongs to the group when its sector/industry/group/tag column equals the group name.
+ * Blank tickers left over from editing are dropped.
+ */
+export function resolveGroupMembers(constraints: PortfolioConstraints, rows: TickerData[]): PortfolioConstraints {
+  const groupOf = (row: TickerData) => Object.keys(row)
+    .filter(key => GROUP_COLUMNS.includes(key.trim().toLowerCase()))
+    .map(key => String(row[key]).trim().toLowerCase());
+
+  return {
+    ...constraints,
+    assetBounds: constraints.assetBounds.filter(bound => bound.asset !== ''),
+    groups: constraints.groups.map(group => {
+      const assets = group.assets.filter(asset => asset !== '');
+      return {
+        ...group,
+        assets: assets.length > 0 ? assets : rows.filter(row => groupOf(row).includes(group.name.trim().toLowerCase())).map(row => row.ticker),
+      };
+    }),
+  };
+}
+
+/**
+ * Checks whether any constraint beyond the defaults was entered.
+ */
+export function hasConstraints(constraints: PortfolioConstraints | undefined): constraints is PortfolioConstraints {
+  return !!constraints && (
+    constraints.assetBounds.length > 0 ||
+    constraints.groups.length > 0 ||
+    constraints.maxHoldings !== undefined ||
+    !!constraints.allowShortSelling
+  );
+}
+
+/**
+ * Lists, per asset, the user constraints that are binding at `weights`.
+ * @param excluded Indices of assets excluded to meet the maximum number of holdings.
+ * @returns Labels keyed by ticker (e.g. "Max 20%", "Tech cap 40%", "Max holdings").
+ */
+export function findBindingConstraints(
+  assets: string[],
+  weights: Vector,
+  constraints: PortfolioConstraints,
+  excluded: number[] = []
+): Record<string, string[]> {
+  const binding: Record<string, string[]> = {};
+  const flag = (asset: string, label: string) => {
+    (binding[asset] ??= []).push(label);
+  };
+
+  for (const bound of constraints.assetBounds) {
+    const index = assets.indexOf(bound.asset);
+    if (index < 0) continue;
+    // A 0% minimum only binds when it stops the asset from being shorted
+    if (bound.min !== undefined && (bound.min !== 0 || constraints.allowShortSelling) && weights[index] <= bound.min / 100 + CONSTRAINT_TOLERANCE) {
+      flag(bound.asset, `Min ${bound.min}%`);
+    }
+    if (bound.max !== undefined && weights[index] >= bound.max / 100 - CONSTRAINT_TOLERANCE) flag(bound.asset, `Max ${bound.max}%`);
+  }
+  for (const group of constraints.groups) {
+    const members = group.assets.filter(asset => assets.includes(asset));
+    const total = members.reduce((acc, asset) => acc + weights[assets.indexOf(asset)], 0);
+    if (members.length > 0 && total >= group.max / 100 - CONSTRAINT_TOLERANCE) {
+      members.filter(asset => Math.abs(weights[assets.indexOf(asset)]) > HOLDING_THRESHOLD).forEach(asset => flag(asset, `${group.name} cap ${group.max}%`));
+    }
+  }
+  if (constraints.allowShortSelling) {
+    const limit = constraints.maxGrossExposure ?? DEFAULT_GROSS_EXPOSURE;
+    if (grossExposure(weights) * 100 >= limit - CONSTRAINT_TOLERANCE * 100) {
+      assets.filter((_, i) => weights[i] < -HOLDING_THRESHOLD).forEach(asset => flag(asset, `Gross ${limit}%`));
+    }
+  }
+  for (const index of excluded) {
+    flag(assets[index], 'Max holdings');
+  }
+  return binding;
+}
@@ -0,0 +1,270 @@
+// src/lib/estimators.ts
+
+/**
+ * @fileOverview Estimators for the optimizers' risk model.
+ * Short histories make the sample covariance noisy, so the covariance can instead be
+ * shrunk towards a scaled identity (Ledoit-Wolf), exponentially weighted towards recent
+ * periods (EWMA) or given a constant correlation structure. Expected returns are the
+ * historical mean, an EWMA mean, or implied by the CAPM from a market series.
+ * Everything is estimated on periodic returns and annualized arithmetically.
+ */
+
+import type { CovarianceEstimator, EstimatorDetails, EstimatorSettings, ReturnEstimator } from '@/types/portfolio';
+import { covarianceMatrix, meanReturns, type Matrix, type ReturnSeries, type RiskModel, type Vector } from '@/lib/portfolio-math';
+
+export const DEFAULT_ESTIMATOR_SETTINGS: EstimatorSettings = {
+  covariance: 'sample',
+  expectedReturns: 'historical',
+  halfLife: 20,
+};
+
+// Display names of the estimators
+export const COVARIANCE_ESTIMATOR_LABELS: Record<CovarianceEstimator, string> = {
+  'sample': 'Sample covariance',
+  'ledoit-wolf': 'Ledoit-Wolf shrinkage',
+  'ewma': 'Exponentially weighted (EWMA)',
+  'constant-correlation': 'Constant correlation',
+};
+
+export const RETURN_ESTIMATOR_LABELS: Record<ReturnEstimator, string> = {
+  'historical': 'Historical mean',
+  'ewma': 'Exponentially weighted mean (EWMA)',
+  'capm': 'CAPM-implied',
+};
+
+// Market series the CAPM-implied returns are computed against
+export interface MarketSeries {
+  name: string;
+  returns: (number | null)[]; // Periodic returns aligned with the return series; null where missing
+}
+
+// Context some estimators need besides the asset returns
+export interface EstimationContext {
+  annualizationFactor: number;
+  riskFreeRates: Vector; // Per-period rates (decimal) aligned with the return series, for the CAPM
+  market?: MarketSeries; // Required by the CAPM
+}
+
+/**
+ * Whether either estimator weights periods by recency (and so uses the half-life).
+ */
+export function usesHalfLife(settings: EstimatorSettings): boolean {
+  return settings.covariance === 'ewma' || settings.expectedReturns === 'ewma';
+}
+
+/**
+ * One-line summary of the estimators, e.g. "Ledoit-Wolf shrinkage (intensity 0.42), historical mean returns".
+ */
+export function describeEstimators(details: EstimatorDetails): string {
+  const halfLife = `half-life ${details.halfLife} periods`;
+  const covariance =
+    details.covariance === 'ledoit-wolf' && details.shrinkage !== undefined ? `Ledoit-Wolf shrinkage (intensity ${details.shrinkage.toFixed(2)})`
+    : details.covariance === 'ewma' ? `EWMA covariance (${halfLife})`
+    : COVARIANCE_ESTIMATOR_LABELS[details.covariance];
+  const expectedReturns =
+    details.expectedReturns === 'capm' ? `CAPM-implied returns${details.marketProxy ? ` (market: ${details.marketProxy})` : ''}`
+    : details.expectedReturns === 'ewma' ? `EWMA mean returns (${halfLife})`
+    : 'historical mean returns';
+  return `${covariance}, ${expectedReturns}`;
+}
+
+/**
+ * Observation weights decaying by half every `halfLife` periods, oldest first, summing to 1.
+ */
+function ewmaWeights(length: number, halfLife: number): Vector {
+  const decay = Math.pow(0.5, 1 / Math.max(halfLife, 1));
+  const raw = Array.from({ length }, (_, t) => Math.pow(decay, length - 1 - t));
+  const total = raw.reduce((acc, w) => acc + w, 0);
+  return raw.map(w => w / total);
+}
+
+function weightedMeans(returns: Matrix, weights: Vector): Vector {
+  const numAssets = returns[0]?.length ?? 0;
+  const means = new Array(numAssets).fill(0);
+  returns.forEach((row, t) => {
+    for (let i = 0; i < numAssets; i++) means[i] += weights[t] * row[i];
+  });
+  return means;
+}
+
+/**
+ * EWMA covariance around the weighted mean, with the small-sample correction 1 / (1 - Σw²)
+ * that makes equal weights reproduce the sample covariance.
+ */
+export function ewmaCovariance(returns: Matrix, halfLife: number): Matrix {
+  const numAssets = returns[0]?.length ?? 0;
+  const weights = ewmaWeights(returns.length, halfLife);
+  const means = weightedMeans(returns, weights);
+  const correction = 1 - weights.reduce((acc, w) => acc + w * w, 0);
+  const cov: Matrix = Array.from({ length: numAssets }, () => new Array(numAssets).fill(0));
+  returns.forEach((row, t) => {
+    for (let i = 0; i < numAssets; i++) {
+      const di = row[i] - means[i];
+      for (let j = i; j < numAssets; j++) {
+        cov[i][j] += weights[t] * di * (row[j] - means[j]);
+      }
+    }
+  });
+  for (let i = 0; i < numAssets; i++) {
+    for (let j = i; j < numAssets; j++) {
+      cov[i][j] /= correction > 0 ? correction : 1;
+      cov[j][i] = cov[i][j];
+    }
+  }
+  return cov;
+}
+
+/**
+ * Ledoit-Wolf (2004) shrinkage of the sample covariance towards the scaled identity mI,
+ * where m is the average variance. The intensity minimizes the expected Frobenius loss.
+ * @returns The shrunk covariance (n - 1 denominator, like the sample estimate) and the intensity used.
+ */
+export function ledoitWolfCovariance(returns: Matrix): { covariance: Matrix; shrinkage: number } {
+  const n = returns.length;
+  const numAssets = returns[0]?.length ?? 0;
+  const means = meanReturns(returns);
+  const centered = returns.map(row => row.map((x, i) => x - means[i]));
+  // Maximum-likelihood covariance (n denominator), as in the paper
+  const sample = covarianceMatrix(returns).map(row => row.map(c => (c * (n - 1)) / n));
+  const target = sample.reduce((acc, row, i) => acc + row[i], 0) / numAssets;
+
+  let dispersion = 0; // ||S - mI||²
+  for (let i = 0; i < numAssets; i++) {
+    for (let j = 0; j < numAssets; j++) {
+      dispersion += (sample[i][j] - (i === j ? target : 0)) ** 2;
+    }
+  }
+  let estimationError = 0; // Σ_t ||x_t x_tᵀ - S||² / n²
+  for (const row of centered) {
+    for (let i = 0; i < numAssets; i++) {
+      for (let j = 0; j < numAssets; j++) {
+        estimationError += (row[i] * row[j] - sample[i][j]) ** 2;
+      }
+    }
+  }
+  estimationError /= n * n;
+
+  const shrinkage = dispersion > 0 ? Math.min(estimationError, dispersion) / dispersion : 1;
+  const rescale = n / Math.max(n - 1, 1);
+  const covariance = sample.map((row, i) =>
+    row.map((c, j) => (shrinkage * (i === j ? target : 0) + (1 - shrinkage) * c) * rescale)
+  );
+  return { covariance, shrinkage };
+}
+
+/**
+ * Sample variances with every pairwise correlation set to the average sample correlation.
+ */
+export function constantCorrelationCovariance(returns: Matrix): Matrix {
+  const sample = covarianceMatrix(returns);
+  const numAssets = sample.length;
+  const volatilities = sample.map((row, i) => Math.sqrt(row[i]));
+
+  let correlationSum = 0;
+  let pairs = 0;
+  for (let i = 0; i < numAssets; i++) {
+    for (let j = i + 1; j < numAssets; j++) {
+      if (volatilities[i] > 0 && volatilities[j] > 0) {
+        correlationSum += sample[i][j] / (volatilities[i] * volatilities[j]);
+        pairs++;
+      }
+    }
+  }
+  const averageCorrelation = pairs > 0 ? correlationSum / pairs : 0;
+  return sample.map((row, i) =>
+    row.map((c, j) => (i === j ? c : averageCorrelation * volatilities[i] * volatilities[j]))
+  );
+}
+
+/**
+ * CAPM-implied periodic expected returns: rf + βᵢ · (mean market excess return),
+ * fitted on the periods the market series has a return for.
+ * @returns The expected returns, or undefined with fewer than two such periods or no market variance.
+ */
+export function capmExpectedReturns(returns: Matrix, market: (number | null)[], riskFreeRates: Vector): Vector | undefined {
+  const periods = returns.map((_, t) => t).filter(t => market[t] !== null);
+  const n = periods.length;
+  if (n < 2) return undefined;
+  const marketReturns = periods.map(t => market[t]!);
+  const marketMean = marketReturns.reduce((acc, r) => acc + r, 0) / n;
+  const marketVariance = marketReturns.reduce((acc, r) => acc + (r - marketMean) ** 2, 0) / (n - 1);
+  if (!(marketVariance > 0)) return undefined;
+
+  const rows = periods.map(t => returns[t]);
+  const means = meanReturns(rows);
+  const riskFree = periods.reduce((acc, t) => acc + riskFreeRates[t], 0) / n;
+  const premium = marketMean - riskFree;
+  return means.map((mean, i) => {
+    const covariance = rows.reduce((acc, row, k) => acc + (row[i] - mean) * (marketReturns[k] - marketMean), 0) / (n - 1);
+    return riskFree + (covariance / marketVariance) * premium;
+  });
+}
+
+/**
+ * Builds the annualized risk model with the chosen estimators.
+ * @param series Aligned periodic returns.
+ * @param settings Covariance and expected-return estimators.
+ * @param context Annualization factor, risk-free rates and (for the CAPM) the market series.
+ * @param warnings Collects fallbacks, e.g. CAPM without a usable market series.
+ * @returns The risk model and the estimator details to report.
+ */
+export function estimateRiskModelWith(
+  series: ReturnSeries,
+  settings: EstimatorSettings,
+  context: EstimationContext,
+  warnings: string[]
+): { model: RiskModel; details: EstimatorDetails } {
+  const { returns } = series;
+  const details: EstimatorDetails = { ...settings };
+
+  let covariance: Matrix;
+  switch (settings.covariance) {
+    case 'ledoit-wolf': {
+      const shrunk = ledoitWolfCovariance(returns);
+      covariance = shrunk.covariance;
+      details.shrinkage = parseFloat(shrunk.shrinkage.toFixed(4));
+      break;
+    }
+    case 'ewma':
+      covariance = ewmaCovariance(returns, settings.halfLife);
+      break;
+    case 'constant-correlation':
+      covariance = constantCorrelationCovariance(returns);
+      break;
+    case 'sample':
+      covariance = covarianceMatrix(returns);
+      break;
+  }
+
+  let expectedReturns: Vector;
+  switch (settings.expectedReturns) {
+    case 'ewma':
+      expectedReturns = weightedMeans(returns, ewmaWeights(returns.length, settings.halfLife));
+      break;
+    case 'capm': {
+      const implied = context.market ? capmExpectedReturns(returns, context.market.returns, context.riskFreeRates) : undefined;
+      if (implied && context.market) {
+        expectedReturns = implied;
+        details.marketProxy = context.market.name;
+      } else {
+        warnings.push("CAPM-implied returns need a market series that overlaps the data and varies; historical mean returns were used instead.");
+        expectedReturns = meanReturns(returns);
+        details.expectedReturns = 'historical';
+      }
+      break;
+    }
+    case 'historical':
+      expectedReturns = meanReturns(returns);
+      break;
+  }
+
+  const factor = context.annualizationFactor;
+  return {
+    model: {
+      assets: series.assets,
+      expectedReturns: expectedReturns.map(m => m * factor),
+      covariance: covariance.map(row => row.map(c => c * factor)),
+    },
+    details,
+  };
+}
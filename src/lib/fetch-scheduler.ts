@@ -0,0 +1,77 @@
+// src/lib/fetch-scheduler.ts
+
+/**
+ * @fileOverview Batched, rate-limited fetching for many tickers.
+ * Tickers are sent to the server in batches of `concurrency` and fetched there in
+ * parallel (server actions invoked from the client run one at a time, so batching
+ * is what makes the requests concurrent). Each ticker is charged against the
+ * RateLimiter before its batch is sent. Failures are recorded per ticker and the
+ * remaining tickers are still fetched, so a run can succeed partially.
+ */
+
+import type { TickerFetchResult } from '@/types/portfolio';
+import { RateLimitExceededError, type RateLimiter } from '@/lib/rate-limiter';
+
+export const DEFAULT_FETCH_CONCURRENCY = 4;
+export const MAX_FETCH_CONCURRENCY = 16;
+
+// Longest wait for rate-limit budget before a ticker is skipped instead
+export const MAX_RATE_LIMIT_WAIT_MS = 30 * 1000;
+
+export interface BatchFetchOptions<T> {
+  concurrency?: number;
+  limiter?: RateLimiter;                 // Charged one request per ticker before its batch is sent
+  maxRateLimitWaitMs?: number;
+  fetchBatch: (tickers: string[]) => Promise<TickerFetchResult<T>[]>;
+  onResult?: (result: TickerFetchResult<T>) => void;  // Called as each ticker finishes or fails
+}
+
+/**
+ * Clamps a requested concurrency to 1..MAX_FETCH_CONCURRENCY.
+ */
+export function normalizeConcurrency(concurrency: number | undefined): number {
+  if (concurrency === undefined || !Number.isFinite(concurrency)) return DEFAULT_FETCH_CONCURRENCY;
+  return Math.min(MAX_FETCH_CONCURRENCY, Math.max(1, Math.floor(concurrency)));
+}
+
+/**
+ * Fetches every ticker, `concurrency` at a time.
+ * @returns One result per ticker, in completion order. Tickers skipped because the
+ *          rate limit would need a longer wait than `maxRateLimitWaitMs` carry the
+ *          RateLimitExceededError message as their error.
+ */
+export async function fetchInBatches<T>(tickers: string[], options: BatchFetchOptions<T>): Promise<TickerFetchResult<T>[]> {
+  const concurrency = normalizeConcurrency(options.concurrency);
+  const maxWaitMs = options.maxRateLimitWaitMs ?? MAX_RATE_LIMIT_WAIT_MS;
+  const results: TickerFetchResult<T>[] = [];
+  const record = (result: TickerFetchResult<T>) => {
+    results.push(result);
+    options.onResult?.(result);
+  };
+
+  for (let start = 0; start < tickers.length; start += concurrency) {
+    const batch = tickers.slice(start, start + concurrency);
+
+    const allowed: string[] = [];
+    for (const ticker of batch) {
+      try {
+        await options.limiter?.acquire(maxWaitMs);
+        allowed.push(ticker);
+      } catch (error) {
+        if (!(error instanceof RateLimitExceededError)) throw error;
+        record({ ticker, error: error.message });
+      }
+    }
+    if (allowed.length === 0) continue;
+
+    let batchResults: TickerFetchResult<T>[];
+    try {
+      batchResults = await options.fetchBatch(allowed);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      batchResults = allowed.map(ticker => ({ ticker, error: message }));
+    }
+    batchResults.forEach(record);
+  }
+  return results;
+}
@@ -0,0 +1,135 @@
+// src/lib/intervals.ts
+
+/**
+ * @fileOverview Maps the user-facing data intervals onto fetchable series.
+ * Native intervals (daily, weekly, monthly) are fetched as-is. Quarterly and
+ * yearly bars are resampled from monthly data, and lookback windows
+ * (1y, 2y, 5y, 10y) are daily data trimmed to the requested span.
+ */
+
+import type { StockData } from '@/types/portfolio';
+
+export type NativeInterval = 'daily' | 'weekly' | 'monthly';
+export type ResamplePeriod = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+export type OutputSize = 'compact' | 'full';  // 'compact' = last 100 points, 'full' = full history
+
+// How a user-facing interval is obtained from the data provider
+export interface IntervalSpec {
+  source: NativeInterval;          // Interval actually requested from the provider
+  outputSize: OutputSize;
+  resample?: ResamplePeriod;       // Aggregate source bars into longer periods
+  lookbackYears?: number;          // Keep only the most recent N years of bars
+}
+
+const INTERVAL_SPECS: { [interval: string]: IntervalSpec } = {
+  daily: { source: 'daily', outputSize: 'compact' },
+  weekly: { source: 'weekly', outputSize: 'compact' },
+  monthly: { source: 'monthly', outputSize: 'compact' },
+  quarterly: { source: 'monthly', outputSize: 'full', resample: 'quarterly' },
+  yearly: { source: 'monthly', outputSize: 'full', resample: 'yearly' },
+  '1y': { source: 'daily', outputSize: 'full', lookbackYears: 1 },
+  '2y': { source: 'daily', outputSize: 'full', lookbackYears: 2 },
+  '5y': { source: 'daily', outputSize: 'full', lookbackYears: 5 },
+  '10y': { source: 'daily', outputSize: 'full', lookbackYears: 10 },
+};
+
+/**
+ * Returns how to fetch and derive the given interval.
+ * Unknown intervals fall back to compact daily data with a warning.
+ */
+export function getIntervalSpec(interval: string): IntervalSpec {
+  const spec = INTERVAL_SPECS[interval];
+  if (!spec) {
+    console.warn(`Unsupported data interval "${interval}". Falling back to daily data.`);
+    return INTERVAL_SPECS.daily;
+  }
+  return spec;
+}
+
+function periodKey(date: string, period: ResamplePeriod): string {
+  const [year, month] = date.split('-');
+  switch (period) {
+    case 'weekly': {
+      // Key weeks by their Monday
+      const day = new Date(`${date}T00:00:00Z`);
+      day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+      return day.toISOString().slice(0, 10);
+    }
+    case 'monthly':
+      return `${year}-${month}`;
+    case 'quarterly':
+      return `${year}-Q${Math.floor((parseInt(month, 10) - 1) / 3) + 1}`;
+    case 'yearly':
+      return year;
+  }
+}
+
+/**
+ * Aggregates chronologically sorted bars into weekly, monthly, quarterly or yearly bars.
+ * Each bar is dated at the last session of its period; open is the first open,
+ * high/low the extremes, close/adjClose the last values and volume the sum.
+ * The trailing period may be incomplete.
+ */
+export function resampleBars(bars: StockData[], period: ResamplePeriod): StockData[] {
+  const resampled: StockData[] = [];
+  let currentKey: string | null = null;
+
+  for (const bar of bars) {
+    const key = periodKey(bar.date, period);
+    const last = resampled[resampled.length - 1];
+    if (key !== currentKey || !last) {
+      resampled.push({ ...bar });
+      currentKey = key;
+    } else {
+      last.date = bar.date;
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.adjClose = bar.adjClose;
+      last.volume += bar.volume;
+    }
+  }
+  return resampled;
+}
+
+// Number of bars in a 'compact' response
+export const COMPACT_OUTPUT_SIZE = 100;
+
+/**
+ * Builds a native series from daily bars, for data
+ * sources that only hold daily history (local files, generated data).
+ */
+export function toNativeSeries(dailyBars: StockData[], source: NativeInterval, outputSize: OutputSize): StockData[] {
+  const series = source === 'daily' ? dailyBars : resampleBars(dailyBars, source);
+  return outputSize === 'compact' ? series.slice(-COMPACT_OUTPUT_SIZE) : series;
+}
+
+/**
+ * Keeps the bars within `years` of the most recent bar.
+ * The window is anchored on the latest available date rather than today,
+ * so stale data still yields a full window.
+ */
+export function trimToLookback(bars: StockData[], years: number): StockData[] {
+  if (bars.length === 0) return bars;
+  const latest = new Date(bars[bars.length - 1].date);
+  const cutoff = new Date(latest);
+  cutoff.setFullYear(latest.getFullYear() - years);
+  return bars.filter(bar => new Date(bar.date) >= cutoff);
+}
+
+/**
+ * Derives the series for a user-facing interval from chronologically sorted source bars.
+ * @param bars Bars fetched at `getIntervalSpec(interval).source`.
+ * @param interval The user-facing interval (e.g., 'quarterly', '5y').
+ */
+export function deriveIntervalSeries(bars: StockData[], interval: string): StockData[] {
+  const spec = getIntervalSpec(interval);
+  let series = bars;
+  if (spec.lookbackYears !== undefined) {
+    series = trimToLookback(series, spec.lookbackYears);
+  }
+  if (spec.resample) {
+    series = resampleBars(series, spec.resample);
+  }
+  return series;
+}
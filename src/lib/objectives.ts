@@ -0,0 +1,32 @@
+// src/lib/objectives.ts
+
+/**
+ * @fileOverview Mean-variance objective defaults and labels.
+ * Kept apart from the solver so UI components can describe an objective without
+ * bundling the optimizer; the solver itself runs in the web worker.
+ */
+
+import type { ObjectiveSettings, OptimizationObjective } from '@/types/portfolio';
+
+export const DEFAULT_OBJECTIVE_SETTINGS: ObjectiveSettings = { objective: 'max-sharpe' };
+
+export const OBJECTIVE_LABELS: Record<OptimizationObjective, string> = {
+  'max-sharpe': 'Maximum Sharpe ratio',
+  'min-variance': 'Minimum variance',
+  'target-volatility': 'Maximum return at a target volatility',
+  'target-return': 'Minimum volatility at a target return',
+};
+
+/**
+ * Short description of an objective, with its target (e.g. "Minimum volatility at a 10% return").
+ */
+export function describeObjective(settings: ObjectiveSettings): string {
+  switch (settings.objective) {
+    case 'target-volatility':
+      return `Maximum return at ${settings.targetVolatility ?? '?'}% volatility`;
+    case 'target-return':
+      return `Minimum volatility at a ${settings.targetReturn ?? '?'}% return`;
+    default:
+      return OBJECTIVE_LABELS[settings.objective];
+  }
+}
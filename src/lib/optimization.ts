@@ -0,0 +1,439 @@
+// src/lib/optimization.ts
+
+/**
+ * @fileOverview Runs the selected optimization method on fetched price history.
+ * Kept free of data fetching so it can run in the optimizer Web Worker
+ * (src/lib/optimizer.worker.ts) as well as on the main thread.
+ */
+
+import { MEAN_VARIANCE_METHODS, OPTIMIZATION_METHODS, type BacktestResult, type BacktestSettings, type CapitalMarketLine, type MethodComparisonEntry, type OptimizationMethod, type OptimizationParams, type OptimizationResult, type PortfolioMetrics, type RiskReturnChartData, type StockData } from '@/types/portfolio';
+import {
+  buildReturnSeries,
+  weightsToAllocations,
+  computePortfolioMetrics,
+  computePortfolioExposure,
+  periodsPerYear,
+  portfolioReturns,
+  annualizedSharpeRatio,
+  type IterationCallback,
+  type ReturnSeries,
+  type RiskModel,
+  type Vector,
+} from '@/lib/portfolio-math';
+import { efficientFrontierPortfolios, maximumSharpePortfolio, objectivePortfolio } from '@/lib/optimizers/mean-variance';
+import { DEFAULT_OBJECTIVE_SETTINGS } from '@/lib/objectives';
+import { blackLittermanPosterior, marketCapWeights } from '@/lib/optimizers/black-litterman';
+import { runMonteCarloSimulation } from '@/lib/optimizers/monte-carlo';
+import { riskParityPortfolio } from '@/lib/optimizers/risk-parity';
+import { hierarchicalRiskParity } from '@/lib/optimizers/hierarchical-risk-parity';
+import { cvarConfidenceLevel, minimumCvarPortfolio } from '@/lib/optimizers/cvar';
+import { allowsShortPositions, buildWeightBounds, findBindingConstraints, hasConstraints, withMaxHoldings, withoutShortPositions, type WeightBounds } from '@/lib/constraints';
+import { periodRiskFreeRates, describeRiskFreeRate, rateSeriesCoverageWarning } from '@/lib/risk-free-rate';
+import { alignBenchmarkReturns, computeHistoricalRiskMetrics, VAR_CONFIDENCE_LEVELS, type BenchmarkSeries } from '@/lib/risk-metrics';
+import { compareWithBenchmark } from '@/lib/benchmark';
+import { DEFAULT_BACKTEST_SETTINGS, runBacktest, runWalkForwardBacktest } from '@/lib/backtest';
+import { DEFAULT_ESTIMATOR_SETTINGS, estimateRiskModelWith, type MarketSeries } from '@/lib/estimators';
+
+const COMPARISON_PROGRESS_STEPS = 1000;  // Scale of the combined progress in compare-all mode
+
+// Fetched inputs available to the optimizers
+export interface OptimizationInputs {
+  stockData: Record<string, StockData[]>;        // Historical bars keyed by ticker
+  marketCaps: Record<string, number | null>;     // Market caps keyed by ticker (only fetched when needed)
+  benchmark?: BenchmarkSeries;                   // Benchmark prices for beta and the comparison (only fetched when requested)
+}
+
+function roundOptional(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : parseFloat(value.toFixed(2));
+}
+
+// Weights chosen by one optimization method, with its method-specific output
+interface MethodSolution {
+  weights: Vector;
+  excluded: number[];   // Assets dropped by the holdings limit
+  model: RiskModel;     // Risk model the weights were optimized under
+  efficientFrontierData?: RiskReturnChartData[];
+  efficientFrontierCurve?: RiskReturnChartData[];
+  monteCarlo?: OptimizationResult['monteCarlo'];
+  clustering?: OptimizationResult['clustering'];
+  frontierBounds?: WeightBounds; // Bounds of the final mean-variance solve, for tracing its frontier
+}
+
+/**
+ * Solves a mean-variance method for the requested objective. The bounds of the final
+ * solve (after any holdings-limit exclusions) are kept so the frontier the portfolio
+ * lies on can be charted.
+ */
+function solveObjective(
+  params: OptimizationParams,
+  model: RiskModel,
+  riskFreeRate: number,
+  bounds: WeightBounds,
+  onIteration?: IterationCallback
+): MethodSolution {
+  let frontierBounds = bounds;
+  const solution = withMaxHoldings(b => {
+    frontierBounds = b;
+    return objectivePortfolio(model, riskFreeRate, params.objective, b, onIteration);
+  }, bounds, params.constraints?.maxHoldings);
+  return { ...solution, model, frontierBounds };
+}
+
+/**
+ * Runs the selected method on a risk model (and, for Minimum CVaR, on the return scenarios).
+ */
+function solveMethod(
+  params: OptimizationParams,
+  inputs: OptimizationInputs,
+  series: ReturnSeries,
+  model: RiskModel,
+  riskFreeRate: number,
+  bounds: WeightBounds,
+  warnings: string[],
+  onIteration?: IterationCallback
+): MethodSolution {
+  const numAssets = model.assets.length;
+  const maxHoldings = params.constraints?.maxHoldings;
+
+  switch (params.method) {
+    case 'Modern Portfolio Theory':
+      return solveObjective(params, model, riskFreeRate, bounds, onIteration);
+    case 'Black-Litterman': {
+      const { weights: marketWeights, fallback } = marketCapWeights(model.assets.map(asset => inputs.marketCaps[asset] ?? null));
+      if (fallback) {
+        warnings.push("Market caps were unavailable for some tickers; Black-Litterman equilibrium returns use equal weights.");
+      }
+      if (params.estimators && params.estimators.expectedReturns !== 'historical') {
+        warnings.push("Black-Litterman derives expected returns from market equilibrium and the views; the selected expected-return estimator is not used.");
+      }
+      const { posterior, ignoredViews } = blackLittermanPosterior(model, marketWeights, params.views ?? []);
+      warnings.push(...ignoredViews);
+      return solveObjective(params, posterior, riskFreeRate, bounds, onIteration);
+    }
+    case 'Monte Carlo Simulation': {
+      const simulation = runMonteCarloSimulation(model, riskFreeRate, params.monteCarlo?.simulations, params.monteCarlo?.seed, bounds, maxHoldings, onIteration);
+      return {
+        weights: simulation.weights,
+        excluded: [],
+        model,
+        efficientFrontierData: simulation.portfolios,
+        efficientFrontierCurve: simulation.envelope,
+        monteCarlo: { simulations: simulation.simulations, seed: simulation.seed },
+      };
+    }
+    case 'Risk Parity': {
+      // Risk budgets are only meaningful for long positions
+      if (allowsShortPositions(bounds)) {
+        warnings.push("Risk Parity does not take short positions; the portfolio was optimized long-only.");
+      }
+      const solution = withMaxHoldings(b => riskParityPortfolio(model.covariance, undefined, b), withoutShortPositions(bounds), maxHoldings);
+      onIteration?.(1, 1);
+      return { ...solution, model };
+    }
+    case 'Hierarchical Risk Parity': {
+      if (allowsShortPositions(bounds)) {
+        warnings.push("Hierarchical Risk Parity does not take short positions; the portfolio was optimized long-only.");
+      }
+      // The clustering of the final solve (after any holdings-limit exclusions) is reported
+      let clustering: OptimizationResult['clustering'];
+      const solution = withMaxHoldings(b => {
+        const hrp = hierarchicalRiskParity(model.covariance, b);
+        clustering = { assets: hrp.members.map(i => model.assets[i]), order: hrp.order, merges: hrp.merges };
+        return hrp.weights;
+      }, withoutShortPositions(bounds), maxHoldings);
+      onIteration?.(1, 1);
+      return { ...solution, model, clustering };
+    }
+    case 'Minimum CVaR': {
+      const confidence = cvarConfidenceLevel(params.cvar);
+      const targetReturn = params.cvar?.targetReturn;
+      const target = targetReturn !== undefined && Number.isFinite(targetReturn) ? { expectedReturns: model.expectedReturns, minimum: targetReturn / 100 } : undefined;
+      if (series.returns.length * (1 - confidence) < 1) {
+        warnings.push(`Only ${series.returns.length} return periods are available; CVaR at ${(confidence * 100).toFixed(1)}% rests on the single worst period.`);
+      }
+      return { ...withMaxHoldings(b => minimumCvarPortfolio(series.returns, confidence, b, target, onIteration), bounds, maxHoldings), model };
+    }
+    case 'Equal Weighting':
+      if (hasConstraints(params.constraints)) {
+        warnings.push("Weight constraints are ignored by Equal Weighting.");
+      }
+      onIteration?.(1, 1);
+      return { weights: new Array(numAssets).fill(1 / numAssets), excluded: [], model };
+  }
+}
+
+/**
+ * Runs the selected optimization method on fetched price history.
+ * Prices are aligned on common dates and converted to an annualized risk model
+ * (mean returns and covariance) before being handed to the optimizer. The optimizers
+ * rank portfolios against the average risk-free rate over the sample; the reported
+ * Sharpe ratio is computed from the portfolio's historical excess return series, and
+ * the weights are backtested over the same history.
+ * @param params - The optimization parameters (method, filters, views, constraints, risk-free rate, backtest settings).
+ * @param inputs - Fetched price history and market caps.
+ * @param warnings - Collects non-fatal issues to report back to the user.
+ * @param onIteration - Called as the optimizer makes progress (solver steps or simulations).
+ * @returns The optimization result with allocations and metrics computed from the data.
+ * @throws An error if the fetched series do not overlap enough to estimate returns or the constraints are infeasible.
+ */
+export function runOptimization(
+  params: OptimizationParams,
+  inputs: OptimizationInputs,
+  warnings: string[],
+  onIteration?: IterationCallback
+): OptimizationResult {
+  const series = buildReturnSeries(inputs.stockData);
+  if (series.assets.length === 0 || series.returns.length < 2) {
+    throw new Error("Not enough overlapping price history across the selected tickers to estimate returns.");
+  }
+  const annualizationFactor = periodsPerYear(params.filters.interval);
+  const riskFreeRates = periodRiskFreeRates(params.riskFreeRate, series.dates, annualizationFactor);
+  const estimated = estimateModel(params, inputs, series, riskFreeRates, warnings);
+  let model = estimated.model;
+  // Annual rate (decimal) matching the arithmetic annualization of the risk model
+  const riskFreeRate = (riskFreeRates.reduce((acc, rate) => acc + rate, 0) / riskFreeRates.length) * annualizationFactor;
+  const coverageWarning = rateSeriesCoverageWarning(params.riskFreeRate, series.dates);
+  if (coverageWarning) warnings.push(coverageWarning);
+  const bounds = buildWeightBounds(model.assets, params.constraints, warnings);
+
+  const estimatedModel = model;
+  const methodComparison = params.compareAll
+    ? compareMethods(params, inputs, series, estimatedModel, riskFreeRate, bounds, warnings, onIteration)
+    : undefined;
+  const compared = methodComparison?.solutions.get(params.method);
+  if (compared instanceof Error) throw compared;
+  const solution = compared ?? solveMethod(params, inputs, series, model, riskFreeRate, bounds, warnings, onIteration);
+  const { weights, excluded, monteCarlo, clustering, frontierBounds } = solution;
+  // Black-Litterman reports metrics under the posterior returns the weights were optimized for
+  model = solution.model;
+  // Mean-variance methods chart the frontier their objective picked a point on
+  const frontier = frontierBounds ? analyticFrontier(model, riskFreeRate, frontierBounds, weights, params.objective) : undefined;
+
+  const allocations = weightsToAllocations(model.assets, weights, model.covariance);
+  if (params.method !== 'Equal Weighting' && hasConstraints(params.constraints)) {
+    const binding = findBindingConstraints(model.assets, weights, params.constraints, excluded);
+    allocations.forEach(allocation => {
+      if (binding[allocation.asset]) allocation.bindingConstraints = binding[allocation.asset];
+    });
+  }
+
+  // The Minimum CVaR level joins the reported VaR/CVaR levels so the optimized figure is shown
+  const cvarConfidence = params.method === 'Minimum CVaR' || params.compareAll ? cvarConfidenceLevel(params.cvar) : undefined;
+  const confidenceLevels = Array.from(new Set([...VAR_CONFIDENCE_LEVELS, ...(cvarConfidence !== undefined ? [cvarConfidence] : [])])).sort((a, b) => a - b);
+  const evaluation = { series, riskFreeRate, riskFreeRates, annualizationFactor, riskFreeRateSettings: params.riskFreeRate, confidenceLevels };
+  const { metrics, returns } = evaluatePortfolio(weights, model, evaluation, inputs.benchmark);
+  if (params.method === 'Minimum CVaR' && cvarConfidence !== undefined) {
+    metrics.cvarConfidence = parseFloat((cvarConfidence * 100).toFixed(2));
+  }
+  if (inputs.benchmark && metrics.beta === undefined) {
+    warnings.push(`${inputs.benchmark.name} could not be compared with the portfolio: its prices do not overlap the portfolio's return dates.`);
+  }
+
+  return {
+    allocations,
+    metrics,
+    efficientFrontierData: solution.efficientFrontierData,
+    efficientFrontierCurve: frontier?.curve ?? solution.efficientFrontierCurve,
+    capitalMarketLine: frontier?.capitalMarketLine,
+    monteCarlo,
+    clustering,
+    objective: MEAN_VARIANCE_METHODS.includes(params.method) ? params.objective ?? DEFAULT_OBJECTIVE_SETTINGS : undefined,
+    exposure: params.method !== 'Equal Weighting' && params.constraints?.allowShortSelling ? computePortfolioExposure(weights) : undefined,
+    backtest: backtestPortfolio(params, inputs, series, weights, bounds, warnings),
+    benchmarkComparison: inputs.benchmark
+      ? compareWithBenchmark(returns, series.dates, riskFreeRates, annualizationFactor, inputs.benchmark)
+      : undefined,
+    methodComparison: methodComparison?.entries.map(entry => {
+      const solved = methodComparison.solutions.get(entry.method);
+      if (solved instanceof Error || !solved) return entry;
+      // Black-Litterman is evaluated under its posterior, as in its main result; the rest share the estimated model
+      return {
+        ...entry,
+        riskModel: solved.model === estimatedModel ? 'Estimated' : 'Black-Litterman posterior',
+        allocations: weightsToAllocations(solved.model.assets, solved.weights, solved.model.covariance),
+        metrics: evaluatePortfolio(solved.weights, solved.model, evaluation).metrics,
+      };
+    }),
+    estimators: estimated.details,
+  };
+}
+
+/**
+ * Traces the efficient frontier a mean-variance portfolio was selected from, with the
+ * capital market line through its tangency (maximum Sharpe) portfolio.
+ * @param bounds Bounds of the final solve, so the portfolio lies on the frontier.
+ */
+function analyticFrontier(
+  model: RiskModel,
+  riskFreeRate: number,
+  bounds: WeightBounds,
+  weights: Vector,
+  objective: OptimizationParams['objective']
+): { curve: RiskReturnChartData[]; capitalMarketLine: CapitalMarketLine } {
+  const point = (w: Vector): RiskReturnChartData => {
+    const { risk, expectedReturn } = computePortfolioMetrics(w, model, riskFreeRate);
+    return { risk, return: expectedReturn };
+  };
+  const curve = efficientFrontierPortfolios(model, bounds).map(point);
+  // Under the maximum-Sharpe objective the selected portfolio is the tangency portfolio
+  const maxSharpe = (objective ?? DEFAULT_OBJECTIVE_SETTINGS).objective === 'max-sharpe';
+  const tangency = point(maxSharpe ? weights : maximumSharpePortfolio(model, riskFreeRate, bounds));
+  const intercept = parseFloat((riskFreeRate * 100).toFixed(2));
+  const slope = tangency.risk > 0 ? (tangency.return - intercept) / tangency.risk : 0;
+  const maxRisk = Math.max(tangency.risk, ...curve.map(p => p.risk));
+  return {
+    curve,
+    capitalMarketLine: {
+      riskFreeRate: intercept,
+      tangency,
+      sharpeRatio: parseFloat(slope.toFixed(2)),
+      line: [{ risk: 0, return: intercept }, { risk: maxRisk, return: parseFloat((intercept + slope * maxRisk).toFixed(2)) }],
+    },
+  };
+}
+
+/**
+ * Estimates the annualized risk model with the requested estimators. CAPM-implied
+ * returns are measured against the benchmark when one was fetched, otherwise against
+ * an equal-weighted portfolio of the selected tickers.
+ */
+function estimateModel(
+  params: OptimizationParams,
+  inputs: OptimizationInputs,
+  series: ReturnSeries,
+  riskFreeRates: Vector,
+  warnings: string[]
+): ReturnType<typeof estimateRiskModelWith> {
+  const settings = params.estimators ?? DEFAULT_ESTIMATOR_SETTINGS;
+  let market: MarketSeries | undefined;
+  if (settings.expectedReturns === 'capm') {
+    market = inputs.benchmark
+      ? { name: inputs.benchmark.name, returns: alignBenchmarkReturns(series.dates, inputs.benchmark.bars) }
+      : { name: 'Equal-weighted selected tickers', returns: portfolioReturns(new Array(series.assets.length).fill(1 / series.assets.length), series.returns) };
+  }
+  const annualizationFactor = periodsPerYear(params.filters.interval);
+  return estimateRiskModelWith(series, settings, { annualizationFactor, riskFreeRates, market }, warnings);
+}
+
+// Return series and rates a portfolio is evaluated against
+interface EvaluationContext {
+  series: ReturnSeries;
+  riskFreeRate: number;      // Average annual rate (decimal)
+  riskFreeRates: Vector;     // Per-period rates aligned with the series
+  annualizationFactor: number;
+  riskFreeRateSettings: OptimizationParams['riskFreeRate'];
+  confidenceLevels: Vector;  // VaR/CVaR confidence levels (decimal)
+}
+
+/**
+ * Metrics of a portfolio: expected return and risk under a risk model, plus the
+ * Sharpe ratio and risk metrics of its historical return series.
+ */
+function evaluatePortfolio(
+  weights: Vector,
+  model: RiskModel,
+  context: EvaluationContext,
+  benchmark?: BenchmarkSeries
+): { metrics: PortfolioMetrics; returns: Vector } {
+  const { series, riskFreeRate, riskFreeRates, annualizationFactor } = context;
+  const returns = portfolioReturns(weights, series.returns);
+  return {
+    returns,
+    metrics: {
+      ...computePortfolioMetrics(weights, model, riskFreeRate),
+      sharpeRatio: roundOptional(annualizedSharpeRatio(returns, riskFreeRates, annualizationFactor)),
+      riskFreeRate: parseFloat((riskFreeRate * 100).toFixed(2)),
+      riskFreeRateSource: describeRiskFreeRate(context.riskFreeRateSettings),
+      annualizationFactor,
+      ...computeHistoricalRiskMetrics(returns, series.dates, riskFreeRates, annualizationFactor, benchmark, context.confidenceLevels),
+    },
+  };
+}
+
+/**
+ * Runs every optimization method on the same risk model ("compare all" mode).
+ * Progress is reported as one combined run on a fixed scale. Warnings of the selected method are kept
+ * as they are; other methods' warnings are prefixed with the method name.
+ * @returns Each method's solution, or the error it failed with, and the comparison entries to fill in.
+ */
+function compareMethods(
+  params: OptimizationParams,
+  inputs: OptimizationInputs,
+  series: ReturnSeries,
+  model: RiskModel,
+  riskFreeRate: number,
+  bounds: WeightBounds,
+  warnings: string[],
+  onIteration?: IterationCallback
+): { solutions: Map<OptimizationMethod, MethodSolution | Error>; entries: MethodComparisonEntry[] } {
+  const solutions = new Map<OptimizationMethod, MethodSolution | Error>();
+  const entries = OPTIMIZATION_METHODS.map((method, index): MethodComparisonEntry => {
+    const methodWarnings: string[] = [];
+    // Methods count progress in different units, so each one's fraction fills an equal share of a fixed scale
+    const progress: IterationCallback = (completed, total) => {
+      const fraction = total > 0 ? Math.min(completed / total, 1) : 1;
+      onIteration?.(Math.round(((index + fraction) / OPTIMIZATION_METHODS.length) * COMPARISON_PROGRESS_STEPS), COMPARISON_PROGRESS_STEPS);
+    };
+    try {
+      solutions.set(method, solveMethod({ ...params, method }, inputs, series, model, riskFreeRate, bounds, methodWarnings, progress));
+      return { method };
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      solutions.set(method, failure);
+      return { method, error: failure.message };
+    } finally {
+      const prefixed = method === params.method ? methodWarnings : methodWarnings.map(warning => `${method}: ${warning}`);
+      warnings.push(...prefixed.filter(warning => !warnings.includes(warning)));
+    }
+  });
+  return { solutions, entries };
+}
+
+/**
+ * Backtests the optimized weights, or re-optimizes on trailing windows in walk-forward mode.
+ * A walk-forward backtest that cannot run (too little history, infeasible window) falls
+ * back to the full-history weights with a warning.
+ */
+function backtestPortfolio(
+  params: OptimizationParams,
+  inputs: OptimizationInputs,
+  series: ReturnSeries,
+  weights: Vector,
+  bounds: WeightBounds,
+  warnings: string[]
+): BacktestResult {
+  const settings: BacktestSettings = params.backtest ?? DEFAULT_BACKTEST_SETTINGS;
+  const annualizationFactor = periodsPerYear(params.filters.interval);
+  if (!settings.walkForward) {
+    return runBacktest(weights, series, settings, annualizationFactor);
+  }
+
+  // Each window repeats the full-history warnings (missing market caps, ignored views, ...)
+  const windowWarnings: string[] = [];
+  try {
+    const backtest = runWalkForwardBacktest(series, settings, annualizationFactor, window => {
+      const windowRates = periodRiskFreeRates(params.riskFreeRate, window.dates, annualizationFactor);
+      const windowRiskFreeRate = (windowRates.reduce((acc, rate) => acc + rate, 0) / windowRates.length) * annualizationFactor;
+      const { model } = estimateModel(params, inputs, window, windowRates, windowWarnings);
+      return solveMethod(params, inputs, window, model, windowRiskFreeRate, bounds, windowWarnings).weights;
+    });
+    warnings.push(...new Set(windowWarnings.filter(warning => !warnings.includes(warning))));
+    return backtest;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    warnings.push(`Walk-forward backtest skipped: ${message} The backtest uses the full-history weights instead.`);
+    return runBacktest(weights, series, { ...settings, walkForward: false }, annualizationFactor);
+  }
+}
+
+// Message sent to the optimizer worker
+export interface OptimizerWorkerRequest {
+  params: OptimizationParams;
+  inputs: OptimizationInputs;
+}
+
+// Messages posted back by the optimizer worker
+export type OptimizerWorkerResponse =
+  | { type: 'iteration'; completed: number; total: number }
+  | { type: 'result'; result: OptimizationResult; warnings: string[] }
+  | { type: 'error'; message: string };
@@ -0,0 +1,32 @@
+// src/lib/optimizer.worker.ts
+
+/**
+ * @fileOverview Web Worker that runs the optimizer off the main thread,
+ * so the page can keep rendering progress while long solves run.
+ * Iteration progress is posted at most once per whole percent.
+ */
+
+import { runOptimization, type OptimizerWorkerRequest, type OptimizerWorkerResponse } from '@/lib/optimization';
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<OptimizerWorkerRequest>) => void) | null;
+  postMessage(message: OptimizerWorkerResponse): void;
+};
+
+workerScope.onmessage = (event) => {
+  const { params, inputs } = event.data;
+  const warnings: string[] = [];
+  let lastPercent = -1;
+  try {
+    const result = runOptimization(params, inputs, warnings, (completed, total) => {
+      const percent = Math.floor((completed / total) * 100);
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        workerScope.postMessage({ type: 'iteration', completed, total });
+      }
+    });
+    workerScope.postMessage({ type: 'result', result, warnings });
+  } catch (error) {
+    workerScope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
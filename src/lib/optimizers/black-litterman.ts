@@ -0,0 +1,124 @@
+// src/lib/optimizers/black-litterman.ts
+
+/**
+ * @fileOverview Black-Litterman return model.
+ * Reverse-optimizes equilibrium returns from market-cap weights (π = δΣw_mkt) and
+ * blends them with investor views into posterior expected returns:
+ *   μ = π + τΣPᵀ(PτΣPᵀ + Ω)⁻¹(Q - Pπ)
+ * The posterior is then handed to the mean-variance optimizer.
+ */
+
+import type { BlackLittermanView } from '@/types/portfolio';
+import type { RiskModel, Vector, Matrix } from '@/lib/portfolio-math';
+import { dot, matVec, transpose, solveLinearSystem } from '@/lib/portfolio-math';
+
+// Market-implied risk aversion (δ) and uncertainty scaling of the prior (τ)
+const DEFAULT_RISK_AVERSION = 2.5;
+const DEFAULT_TAU = 0.05;
+
+export interface BlackLittermanResult {
+  posterior: RiskModel;       // Risk model with posterior expected returns
+  equilibriumReturns: Vector; // Market-implied prior returns (π)
+  marketWeights: Vector;      // Weights the prior was derived from
+  ignoredViews: string[];     // Human-readable reasons for views that could not be applied
+}
+
+/**
+ * Normalizes market capitalizations into weights.
+ * Falls back to equal weights when any market cap is unknown.
+ * @returns The weights and whether the equal-weight fallback was used.
+ */
+export function marketCapWeights(marketCaps: (number | null)[]): { weights: Vector; fallback: boolean } {
+  const n = marketCaps.length;
+  const usable = marketCaps.every(cap => cap !== null && cap > 0);
+  if (!usable) {
+    return { weights: new Array(n).fill(1 / n), fallback: true };
+  }
+  const total = (marketCaps as number[]).reduce((acc, cap) => acc + cap, 0);
+  return { weights: (marketCaps as number[]).map(cap => cap / total), fallback: false };
+}
+
+/**
+ * Market-implied equilibrium returns π = δΣw.
+ */
+export function equilibriumReturns(covariance: Matrix, marketWeights: Vector, riskAversion = DEFAULT_RISK_AVERSION): Vector {
+  return matVec(covariance, marketWeights).map(x => riskAversion * x);
+}
+
+/**
+ * Computes Black-Litterman posterior expected returns.
+ * View uncertainty follows the common confidence heuristic
+ * Ω_k = ((1 - c) / c) · p_k τΣ p_kᵀ, so 100% confidence pins the view and
+ * 0% confidence leaves the prior untouched.
+ * @param model Sample risk model; only its covariance and assets are used.
+ * @param marketWeights Market-cap weights aligned with `model.assets`.
+ * @param views Investor views. Views naming unknown tickers are skipped.
+ * @throws An error if the remaining views are contradictory or redundant.
+ */
+export function blackLittermanPosterior(
+  model: RiskModel,
+  marketWeights: Vector,
+  views: BlackLittermanView[],
+  tau = DEFAULT_TAU,
+  riskAversion = DEFAULT_RISK_AVERSION
+): BlackLittermanResult {
+  const { assets, covariance } = model;
+  const prior = equilibriumReturns(covariance, marketWeights, riskAversion);
+  const ignoredViews: string[] = [];
+
+  const pickMatrix: Matrix = [];
+  const viewReturns: Vector = [];
+  const confidences: Vector = [];
+
+  for (const view of views) {
+    const assetIndex = assets.indexOf(view.asset.trim().toUpperCase());
+    const label = view.type === 'relative' ? `${view.asset} vs ${view.relativeTo ?? '?'}` : view.asset;
+    if (assetIndex < 0) {
+      ignoredViews.push(`View on ${label} ignored: ${view.asset} is not in the optimized universe.`);
+      continue;
+    }
+    if (view.confidence <= 0) {
+      ignoredViews.push(`View on ${label} ignored: confidence is 0%.`);
+      continue;
+    }
+
+    const row: Vector = new Array(assets.length).fill(0);
+    row[assetIndex] = 1;
+    if (view.type === 'relative') {
+      const otherIndex = assets.indexOf((view.relativeTo ?? '').trim().toUpperCase());
+      if (otherIndex < 0 || otherIndex === assetIndex) {
+        ignoredViews.push(`View on ${label} ignored: the comparison asset is missing or not in the optimized universe.`);
+        continue;
+      }
+      row[otherIndex] = -1;
+    }
+    pickMatrix.push(row);
+    viewReturns.push(view.expectedReturn / 100);
+    confidences.push(Math.min(view.confidence, 100) / 100);
+  }
+
+  if (pickMatrix.length === 0) {
+    return { posterior: { ...model, expectedReturns: prior }, equilibriumReturns: prior, marketWeights, ignoredViews };
+  }
+
+  // τΣPᵀ (n × k) and PτΣPᵀ + Ω (k × k)
+  const scaledCovPt: Matrix = transpose(pickMatrix.map(p => matVec(covariance, p).map(x => tau * x)));
+  const viewCovariance: Matrix = pickMatrix.map(p =>
+    pickMatrix.map((_, j) => dot(p, scaledCovPt.map(row => row[j])))
+  );
+  for (let k = 0; k < pickMatrix.length; k++) {
+    const c = confidences[k];
+    viewCovariance[k][k] += ((1 - c) / c) * viewCovariance[k][k];
+  }
+
+  const surprise = pickMatrix.map((p, k) => viewReturns[k] - dot(p, prior));
+  let adjustment: Vector;
+  try {
+    adjustment = solveLinearSystem(viewCovariance, surprise);
+  } catch {
+    throw new Error("Black-Litterman views are redundant or contradictory (e.g. duplicate views at 100% confidence). Please revise the views.");
+  }
+
+  const expectedReturns = prior.map((pi, i) => pi + dot(scaledCovPt[i], adjustment));
+  return { posterior: { ...model, expectedReturns }, equilibriumReturns: prior, marketWeights, ignoredViews };
+}
@@ -0,0 +1,185 @@
+// src/lib/optimizers/cvar.ts
+
+/**
+ * @fileOverview Minimum-CVaR (mean-CVaR) optimizer over historical scenarios.
+ * Uses the Rockafellar-Uryasev formulation: CVaR_β(w) = min over ζ of
+ *   ζ + 1 / ((1 - β)·T) · Σ_t max(0, -r_tᵀw - ζ)
+ * where r_t are the fetched periodic returns (one scenario per period) and ζ ends up
+ * at the VaR. The kink of max(0, ·) is smoothed with a softplus whose temperature is
+ * lowered in stages, and each stage is solved by projected gradient descent over
+ * (w, ζ). An optional target return adds the half-space μᵀw ≥ target, combined with
+ * the other weight constraints by Dykstra's alternating projections.
+ */
+
+import type { CvarSettings } from '@/types/portfolio';
+import type { Matrix, Vector, IterationCallback } from '@/lib/portfolio-math';
+import { dot } from '@/lib/portfolio-math';
+import { assertFeasible, longOnlyBounds, projectOntoFeasibleSet, type WeightBounds } from '@/lib/constraints';
+
+// Confidence level (percentage) used when none is configured
+export const DEFAULT_CVAR_CONFIDENCE = 95;
+export const MIN_CVAR_CONFIDENCE = 50;
+export const MAX_CVAR_CONFIDENCE = 99.9;
+
+const SMOOTHING_STAGES = 5;         // Softplus temperatures, each a tenth of the previous
+const INITIAL_TEMPERATURE = 0.1;    // In units of the starting portfolio's return spread
+const MAX_GRADIENT_STEPS = 400;     // Projected gradient steps per stage
+const GRADIENT_TOLERANCE = 1e-10;
+const DYKSTRA_MAX_ITERATIONS = 500;
+const DYKSTRA_TOLERANCE = 1e-12;
+const FAR_STEP = 1e4;               // Step along μ whose projection lands on the maximum-return corner
+
+// Minimum expected return the portfolio must reach
+export interface ReturnTarget {
+  expectedReturns: Vector; // Annualized (decimal), aligned with the scenario columns
+  minimum: number;         // Annualized (decimal)
+}
+
+/**
+ * Confidence level β (decimal) of the settings, clamped to the supported range.
+ */
+export function cvarConfidenceLevel(settings?: CvarSettings): number {
+  const confidence = Number.isFinite(settings?.confidence) ? settings!.confidence : DEFAULT_CVAR_CONFIDENCE;
+  return Math.min(Math.max(confidence, MIN_CVAR_CONFIDENCE), MAX_CVAR_CONFIDENCE) / 100;
+}
+
+/**
+ * Numerically stable softplus s·log(1 + exp(x / s)).
+ */
+function softplus(x: number, temperature: number): number {
+  const z = x / temperature;
+  return temperature * (Math.max(z, 0) + Math.log1p(Math.exp(-Math.abs(z))));
+}
+
+function sigmoid(z: number): number {
+  return z >= 0 ? 1 / (1 + Math.exp(-z)) : Math.exp(z) / (1 + Math.exp(z));
+}
+
+/**
+ * Projection onto the feasible weights intersected with { w : μᵀw ≥ minimum }.
+ */
+function projectWithTarget(v: Vector, bounds: WeightBounds, target?: ReturnTarget): Vector {
+  if (!target) return projectOntoFeasibleSet(v, bounds);
+  const { expectedReturns: mu, minimum } = target;
+  const norm = dot(mu, mu);
+  const halfSpace = (x: Vector): Vector => {
+    const shortfall = minimum - dot(mu, x);
+    return shortfall > 0 && norm > 0 ? x.map((value, i) => value + (shortfall / norm) * mu[i]) : x;
+  };
+
+  let x = v;
+  let halfSpaceCorrection: Vector = new Array(v.length).fill(0);
+  let boundsCorrection: Vector = new Array(v.length).fill(0);
+  for (let iter = 0; iter < DYKSTRA_MAX_ITERATIONS; iter++) {
+    const previous = x;
+    let shifted = x.map((value, i) => value + halfSpaceCorrection[i]);
+    let next = halfSpace(shifted);
+    halfSpaceCorrection = shifted.map((value, i) => value - next[i]);
+    shifted = next.map((value, i) => value + boundsCorrection[i]);
+    x = projectOntoFeasibleSet(shifted, bounds);
+    boundsCorrection = shifted.map((value, i) => value - x[i]);
+    if (Math.max(...x.map((value, i) => Math.abs(value - previous[i]))) < DYKSTRA_TOLERANCE) break;
+  }
+  return x;
+}
+
+/**
+ * Highest expected return the weight constraints allow.
+ */
+export function maximumAttainableReturn(expectedReturns: Vector, bounds: WeightBounds): number {
+  const norm = Math.sqrt(dot(expectedReturns, expectedReturns));
+  if (norm === 0) return 0;
+  const start = projectOntoFeasibleSet(new Array(expectedReturns.length).fill(1 / expectedReturns.length), bounds);
+  const corner = projectOntoFeasibleSet(start.map((w, i) => w + (FAR_STEP * expectedReturns[i]) / norm), bounds);
+  return dot(corner, expectedReturns);
+}
+
+/**
+ * Historical CVaR (average loss in the worst (1 - β) share of scenarios) of a weight vector.
+ */
+export function scenarioCvar(scenarios: Matrix, weights: Vector, confidence: number): number {
+  const losses = scenarios.map(row => -dot(weights, row)).sort((a, b) => b - a);
+  const tailCount = Math.max(1, Math.floor(losses.length * (1 - confidence)));
+  return losses.slice(0, tailCount).reduce((acc, x) => acc + x, 0) / tailCount;
+}
+
+/**
+ * Finds the portfolio with the lowest historical CVaR.
+ * @param scenarios Periodic returns, one row per scenario (period) and one column per asset.
+ * @param confidence Confidence level β as a decimal (e.g. 0.95).
+ * @param bounds Weight limits and group caps. Defaults to long-only.
+ * @param target Optional minimum expected return (mean-CVaR).
+ * @param onIteration Called after each smoothing stage.
+ * @returns Decimal weights aligned with the scenario columns.
+ * @throws An error if the bounds are infeasible or the target return cannot be reached under them.
+ */
+export function minimumCvarPortfolio(
+  originalScenarios: Matrix,
+  confidence: number,
+  bounds?: WeightBounds,
+  target?: ReturnTarget,
+  onIteration?: IterationCallback
+): Vector {
+  const n = originalScenarios[0]?.length ?? 0;
+  const T = originalScenarios.length;
+  const limits = bounds ?? longOnlyBounds(n);
+  assertFeasible(limits);
+  if (target) {
+    const highest = maximumAttainableReturn(target.expectedReturns, limits);
+    if (target.minimum > highest + 1e-9) {
+      throw new Error(`The target return of ${(target.minimum * 100).toFixed(2)}% is above the highest expected return the constraints allow (${(highest * 100).toFixed(2)}%).`);
+    }
+  }
+  const tailWeight = 1 / ((1 - confidence) * T);
+
+  let w = projectWithTarget(new Array(n).fill(1 / n), limits, target);
+  // CVaR is positively homogeneous, so rescaling the scenarios to unit spread leaves the
+  // minimizer unchanged while putting the w and ζ gradients on the same scale
+  const startReturns = originalScenarios.map(row => dot(w, row));
+  const startMean = startReturns.reduce((acc, r) => acc + r, 0) / T;
+  const spread = Math.max(Math.sqrt(startReturns.reduce((acc, r) => acc + (r - startMean) ** 2, 0) / T), 1e-12);
+  const scenarios = originalScenarios.map(row => row.map(r => r / spread));
+  let zeta = scenarioCvar(scenarios, w, confidence);
+  let temperature = INITIAL_TEMPERATURE;
+
+  for (let stage = 0; stage < SMOOTHING_STAGES; stage++) {
+    const objective = (weights: Vector, level: number) =>
+      level + tailWeight * scenarios.reduce((acc, row) => acc + softplus(-dot(weights, row) - level, temperature), 0);
+    const gradient = (weights: Vector, level: number): { gw: Vector; gz: number } => {
+      const gw = new Array(n).fill(0);
+      let tail = 0;
+      for (const row of scenarios) {
+        const share = tailWeight * sigmoid((-dot(weights, row) - level) / temperature);
+        tail += share;
+        for (let i = 0; i < n; i++) gw[i] -= share * row[i];
+      }
+      return { gw, gz: 1 - tail };
+    };
+
+    let step = temperature;
+    for (let k = 0; k < MAX_GRADIENT_STEPS; k++) {
+      const { gw, gz } = gradient(w, zeta);
+      const value = objective(w, zeta);
+      let nextW = w;
+      let nextZeta = zeta;
+      // Backtracking: shrink the step until the quadratic upper bound holds
+      for (let tries = 0; tries < 60; tries++) {
+        nextW = projectWithTarget(w.map((x, i) => x - step * gw[i]), limits, target);
+        nextZeta = zeta - step * gz;
+        const dw = nextW.map((x, i) => x - w[i]);
+        const dz = nextZeta - zeta;
+        const bound = value + dot(gw, dw) + gz * dz + (dot(dw, dw) + dz * dz) / (2 * step);
+        if (objective(nextW, nextZeta) <= bound) break;
+        step /= 2;
+      }
+      const change = Math.max(Math.abs(nextZeta - zeta), ...nextW.map((x, i) => Math.abs(x - w[i])));
+      w = nextW;
+      zeta = nextZeta;
+      step *= 2;
+      if (change < GRADIENT_TOLERANCE) break;
+    }
+    onIteration?.(stage + 1, SMOOTHING_STAGES);
+    temperature /= 10;
+  }
+  return w;
+}
@@ -0,0 +1,152 @@
+// src/lib/optimizers/hierarchical-risk-parity.ts
+
+/**
+ * @fileOverview Hierarchical Risk Parity (López de Prado, 2016).
+ * Clusters the assets by correlation distance d = √((1 - ρ) / 2) with single
+ * linkage, reorders them so correlated assets sit next to each other
+ * (quasi-diagonalization), then splits the ordered list in halves recursively,
+ * dividing each parent's weight between its halves in inverse proportion to their
+ * inverse-variance cluster variances. No matrix is inverted, so the weights stay
+ * stable on large, highly correlated universes.
+ * Weight constraints are applied by projecting the weights onto the feasible set.
+ */
+
+import type { ClusterMerge } from '@/types/portfolio';
+import type { Matrix, Vector } from '@/lib/portfolio-math';
+import { portfolioVariance } from '@/lib/portfolio-math';
+import { assertFeasible, isLongOnly, projectOntoFeasibleSet, type WeightBounds } from '@/lib/constraints';
+
+export interface HierarchicalRiskParityResult {
+  weights: Vector;
+  members: number[];      // Asset indices that were clustered (those allowed a weight), in column order
+  order: number[];        // Positions in `members` after quasi-diagonalization
+  merges: ClusterMerge[]; // Linkage over `members`, in the order the clusters were formed
+}
+
+/**
+ * Correlation distance matrix √((1 - ρ) / 2), in [0, 1].
+ */
+function correlationDistances(covariance: Matrix): Matrix {
+  const volatilities = covariance.map((row, i) => Math.sqrt(row[i]));
+  return covariance.map((row, i) =>
+    row.map((c, j) => {
+      if (i === j) return 0;
+      const correlation = Math.max(-1, Math.min(1, c / (volatilities[i] * volatilities[j])));
+      return Math.sqrt((1 - correlation) / 2);
+    })
+  );
+}
+
+/**
+ * Agglomerative single-linkage clustering. Cluster ids 0..n-1 are the assets;
+ * merge k forms cluster n + k.
+ */
+function singleLinkage(distances: Matrix): ClusterMerge[] {
+  const n = distances.length;
+  const merges: ClusterMerge[] = [];
+  // Distances between the active clusters, keyed by their current row
+  const rows = distances.map(row => [...row]);
+  const ids = Array.from({ length: n }, (_, i) => i);
+  const sizes = new Array(n).fill(1);
+  const active = new Array(n).fill(true);
+
+  for (let step = 0; step < n - 1; step++) {
+    let a = -1;
+    let b = -1;
+    let closest = Infinity;
+    for (let i = 0; i < n; i++) {
+      if (!active[i]) continue;
+      for (let j = i + 1; j < n; j++) {
+        if (active[j] && rows[i][j] < closest) {
+          closest = rows[i][j];
+          a = i;
+          b = j;
+        }
+      }
+    }
+    merges.push({ left: ids[a], right: ids[b], distance: closest, size: sizes[a] + sizes[b] });
+    // The merged cluster takes row a; single linkage keeps the nearer of the two distances
+    for (let k = 0; k < n; k++) {
+      if (active[k] && k !== a && k !== b) {
+        rows[a][k] = rows[k][a] = Math.min(rows[a][k], rows[b][k]);
+      }
+    }
+    active[b] = false;
+    ids[a] = n + step;
+    sizes[a] += sizes[b];
+  }
+  return merges;
+}
+
+/**
+ * Leaf order of the dendrogram: each cluster lists its left branch, then its right.
+ */
+function quasiDiagonalOrder(merges: ClusterMerge[], n: number): number[] {
+  if (n === 1) return [0];
+  const leaves = (id: number): number[] =>
+    id < n ? [id] : [...leaves(merges[id - n].left), ...leaves(merges[id - n].right)];
+  return leaves(n + merges.length - 1);
+}
+
+/**
+ * Variance of a cluster held at inverse-variance weights.
+ */
+function clusterVariance(covariance: Matrix, cluster: number[]): number {
+  const inverse = cluster.map(i => 1 / covariance[i][i]);
+  const total = inverse.reduce((acc, x) => acc + x, 0);
+  const sub = cluster.map(i => cluster.map(j => covariance[i][j]));
+  return portfolioVariance(inverse.map(x => x / total), sub);
+}
+
+/**
+ * Recursive bisection of the quasi-diagonal order.
+ */
+function recursiveBisection(covariance: Matrix, order: number[]): Vector {
+  const weights = new Array(covariance.length).fill(1);
+  const pending: number[][] = [order];
+  while (pending.length > 0) {
+    const cluster = pending.pop()!;
+    if (cluster.length < 2) continue;
+    const half = Math.floor(cluster.length / 2);
+    const left = cluster.slice(0, half);
+    const right = cluster.slice(half);
+    const leftVariance = clusterVariance(covariance, left);
+    const rightVariance = clusterVariance(covariance, right);
+    const total = leftVariance + rightVariance;
+    // The lower-variance half receives the larger share
+    const alpha = total > 0 ? 1 - leftVariance / total : 0.5;
+    left.forEach(i => { weights[i] *= alpha; });
+    right.forEach(i => { weights[i] *= 1 - alpha; });
+    pending.push(left, right);
+  }
+  return weights;
+}
+
+/**
+ * Solves for Hierarchical Risk Parity weights.
+ * @param covariance Annualized covariance matrix.
+ * @param bounds Long-only weight constraints. Assets whose upper bound is 0 are left out
+ *   of the clustering; other limits are enforced by projecting the HRP weights.
+ * @returns Decimal weights summing to 1 and the clustering behind them.
+ * @throws An error if an asset has zero variance or the bounds are infeasible.
+ */
+export function hierarchicalRiskParity(covariance: Matrix, bounds?: WeightBounds): HierarchicalRiskParityResult {
+  const n = covariance.length;
+  const members = Array.from({ length: n }, (_, i) => i).filter(i => !bounds || bounds.upper[i] > 0);
+  if (members.some(i => !(covariance[i][i] > 0))) {
+    throw new Error("Hierarchical Risk Parity requires every asset to have non-zero variance over the selected period.");
+  }
+  if (bounds) assertFeasible(bounds);
+
+  const sub = members.map(i => members.map(j => covariance[i][j]));
+  const merges = singleLinkage(correlationDistances(sub));
+  const order = quasiDiagonalOrder(merges, members.length);
+  const clusterWeights = recursiveBisection(sub, order);
+
+  let weights: Vector = new Array(n).fill(0);
+  members.forEach((asset, k) => { weights[asset] = clusterWeights[k]; });
+  if (bounds && !isLongOnly(bounds)) {
+    weights = projectOntoFeasibleSet(weights, bounds);
+  }
+  return { weights, members, order, merges };
+}
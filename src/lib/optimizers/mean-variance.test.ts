@@ -0,0 +1,30 @@
+// src/lib/optimizers/mean-variance.test.ts
+
+/**
+ * @fileOverview Tests for the efficient frontier traced by the mean-variance optimizer.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildWeightBounds } from '@/lib/constraints';
+import { efficientFrontierPortfolios, FRONTIER_POINTS } from '@/lib/optimizers/mean-variance';
+import { dot } from '@/lib/portfolio-math';
+import { syntheticRiskModel } from '@/lib/testing/synthetic-model';
+
+const ASSETS = ['AAA', 'BBB', 'CCC', 'DDD', 'EEE', 'FFF'];
+
+for (const allowShortSelling of [false, true]) {
+  test(`frontier returns are evenly spaced and strictly increasing${allowShortSelling ? ' with short positions' : ''}`, () => {
+    const model = syntheticRiskModel(ASSETS);
+    const bounds = buildWeightBounds(ASSETS, { assetBounds: [], groups: [], allowShortSelling, maxGrossExposure: 160 }, []);
+    const returns = efficientFrontierPortfolios(model, bounds).map(weights => dot(weights, model.expectedReturns));
+    assert.equal(returns.length, FRONTIER_POINTS);
+
+    const spacing = (returns[returns.length - 1] - returns[0]) / (returns.length - 1);
+    assert.ok(spacing > 0);
+    returns.slice(1).forEach((value, k) => {
+      assert.ok(value > returns[k], `point ${k + 1} does not rise above point ${k}`);
+      assert.ok(Math.abs(value - returns[k] - spacing) < 1e-6, `point ${k + 1} is ${((value - returns[k]) * 100).toFixed(4)}% above point ${k}`);
+    });
+  });
+}
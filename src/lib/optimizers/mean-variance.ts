@@ -0,0 +1,334 @@
+// src/lib/optimizers/mean-variance.ts
+
+/**
+ * @fileOverview Mean-variance (Markowitz) optimizer.
+ * Solves  min  wᵀΣw - t·μᵀw  subject to  Σw = 1, lower ≤ w ≤ upper and any group caps
+ * with accelerated projected gradient descent. Sweeping the risk tolerance `t`
+ * traces the efficient frontier, which is how the max-Sharpe portfolio is found.
+ * Expected return and volatility both rise with `t`: the frontier portfolio at a target
+ * return is found by root-finding on `t`, and the one at a target volatility by
+ * bisecting it.
+ */
+
+import type { ObjectiveSettings } from '@/types/portfolio';
+import type { RiskModel, Vector, IterationCallback } from '@/lib/portfolio-math';
+import { dot, matVec, portfolioVariance, largestEigenvalue } from '@/lib/portfolio-math';
+import { longOnlyBounds, feasibleSetProjector, assertFeasible, type WeightBounds } from '@/lib/constraints';
+import { DEFAULT_OBJECTIVE_SETTINGS } from '@/lib/objectives';
+
+const MAX_ITERATIONS = 5000;
+const CONVERGENCE_TOLERANCE = 1e-10;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+const TOLERANCE_GRID_SIZE = 26;
+const GOLDEN_SECTION_STEPS = 30;
+const BISECTION_STEPS = 40;
+const ROOT_FINDING_STEPS = 40;
+const RETURN_TOLERANCE = 1e-8;      // Distance (decimal) at which a frontier point counts as on target
+const TARGET_TOLERANCE = 1e-6;      // Slack (decimal) before a target counts as unreachable
+export const FRONTIER_POINTS = 25;  // Target returns swept along the frontier for the chart
+
+/**
+ * Solves the mean-variance problem for a given risk tolerance.
+ * @param model Annualized expected returns and covariance.
+ * @param riskTolerance Weight `t` on expected return; 0 yields the minimum-variance portfolio.
+ * @param bounds Weight limits and group caps. Defaults to long-only.
+ * @param start Starting weights (e.g. a neighbouring frontier point). Defaults to equal weights.
+ * @returns Decimal weights aligned with `model.assets`.
+ */
+export function solveMeanVariance(model: RiskModel, riskTolerance: number, bounds?: WeightBounds, start?: Vector): Vector {
+  const n = model.assets.length;
+  const limits = bounds ?? longOnlyBounds(n);
+  assertFeasible(limits);
+
+  const { covariance, expectedReturns } = model;
+  const lipschitz = Math.max(2 * largestEigenvalue(covariance), 1e-12);
+  const gradient = (w: Vector) => matVec(covariance, w).map((x, i) => 2 * x - riskTolerance * expectedReturns[i]);
+
+  const project = feasibleSetProjector(limits);
+  let weights = project(start ?? new Array(n).fill(1 / n));
+  let momentumPoint = weights;
+  let momentum = 1;
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const grad = gradient(momentumPoint);
+    const next = project(momentumPoint.map((x, i) => x - grad[i] / lipschitz));
+    const change = Math.max(...next.map((x, i) => Math.abs(x - weights[i])));
+
+    const nextMomentum = (1 + Math.sqrt(1 + 4 * momentum * momentum)) / 2;
+    momentumPoint = next.map((x, i) => x + ((momentum - 1) / nextMomentum) * (x - weights[i]));
+    weights = next;
+    momentum = nextMomentum;
+
+    if (change < CONVERGENCE_TOLERANCE) break;
+  }
+  return weights;
+}
+
+/**
+ * Finds the global minimum-variance portfolio.
+ */
+export function minimumVariancePortfolio(model: RiskModel, bounds?: WeightBounds): Vector {
+  return solveMeanVariance(model, 0, bounds);
+}
+
+function volatility(weights: Vector, model: RiskModel): number {
+  return Math.sqrt(Math.max(portfolioVariance(weights, model.covariance), 0));
+}
+
+function sharpeRatio(weights: Vector, model: RiskModel, riskFreeRate: number): number {
+  const risk = volatility(weights, model);
+  if (risk === 0) return -Infinity;
+  return (dot(weights, model.expectedReturns) - riskFreeRate) / risk;
+}
+
+/**
+ * Finds the smallest risk tolerance at which the solver reaches the
+ * maximum-return corner of the feasible set. Beyond it the frontier is flat.
+ */
+function maxUsefulRiskTolerance(model: RiskModel, bounds?: WeightBounds): number {
+  let tolerance = 1;
+  let previousReturn = dot(solveMeanVariance(model, tolerance, bounds), model.expectedReturns);
+  for (let k = 0; k < 40; k++) {
+    const currentReturn = dot(solveMeanVariance(model, tolerance * 2, bounds), model.expectedReturns);
+    if (Math.abs(currentReturn - previousReturn) < 1e-9) break;
+    tolerance *= 2;
+    previousReturn = currentReturn;
+  }
+  return tolerance * 2;
+}
+
+/**
+ * Risk tolerances from 0 up to `maxTolerance`, spaced logarithmically.
+ */
+function toleranceGrid(maxTolerance: number): number[] {
+  return [0, ...Array.from({ length: TOLERANCE_GRID_SIZE - 1 }, (_, k) => maxTolerance * Math.pow(2, k - (TOLERANCE_GRID_SIZE - 2)))];
+}
+
+/**
+ * Finds the maximum-Sharpe (tangency) portfolio by searching along the efficient frontier.
+ * A coarse logarithmic scan of the risk tolerance locates the best region, which is
+ * then refined with a golden-section search.
+ * @param model Annualized expected returns and covariance.
+ * @param riskFreeRate Annualized risk-free rate (decimal).
+ * @param bounds Weight limits and group caps. Defaults to long-only.
+ * @param onIteration Called after each frontier point is solved.
+ */
+export function maximumSharpePortfolio(model: RiskModel, riskFreeRate: number, bounds?: WeightBounds, onIteration?: IterationCallback): Vector {
+  // Tolerance scan, grid, golden-section steps (two initial probes plus one per step) and the final solve
+  const totalSteps = 1 + TOLERANCE_GRID_SIZE + GOLDEN_SECTION_STEPS + 3;
+  let step = 0;
+  const score = (t: number) => {
+    const value = sharpeRatio(solveMeanVariance(model, t, bounds), model, riskFreeRate);
+    onIteration?.(++step, totalSteps);
+    return value;
+  };
+
+  const maxTolerance = maxUsefulRiskTolerance(model, bounds);
+  onIteration?.(++step, totalSteps);
+  const grid = toleranceGrid(maxTolerance);
+  const scores = grid.map(score);
+
+  const best = scores.indexOf(Math.max(...scores));
+  let lo = grid[Math.max(best - 1, 0)];
+  let hi = grid[Math.min(best + 1, grid.length - 1)];
+
+  let x1 = hi - GOLDEN_RATIO * (hi - lo);
+  let x2 = lo + GOLDEN_RATIO * (hi - lo);
+  let f1 = score(x1);
+  let f2 = score(x2);
+  for (let k = 0; k < GOLDEN_SECTION_STEPS; k++) {
+    if (f1 < f2) {
+      lo = x1; x1 = x2; f1 = f2;
+      x2 = lo + GOLDEN_RATIO * (hi - lo);
+      f2 = score(x2);
+    } else {
+      hi = x2; x2 = x1; f2 = f1;
+      x1 = hi - GOLDEN_RATIO * (hi - lo);
+      f1 = score(x1);
+    }
+  }
+
+  const candidates = [grid[best], x1, x2];
+  const candidateScores = [scores[best], f1, f2];
+  const winner = candidates[candidateScores.indexOf(Math.max(...candidateScores))];
+  const weights = solveMeanVariance(model, winner, bounds);
+  onIteration?.(totalSteps, totalSteps);
+  return weights;
+}
+
+// A frontier portfolio and the risk tolerance that produces it
+interface FrontierPoint {
+  tolerance: number;
+  weights: Vector;
+}
+
+/**
+ * Solves for the frontier portfolio whose expected return equals a target lying
+ * between the returns of two bracketing frontier points. The return is piecewise
+ * linear and non-decreasing in the risk tolerance, so false position (Illinois
+ * variant) reaches it in a few solves, each starting from the nearer bracket.
+ */
+function solveForReturn(model: RiskModel, targetReturn: number, bounds: WeightBounds | undefined, lower: FrontierPoint, upper: FrontierPoint, onStep?: () => void): FrontierPoint {
+  const gap = (weights: Vector) => dot(weights, model.expectedReturns) - targetReturn;
+  let lo = lower;
+  let hi = upper;
+  let loGap = gap(lo.weights);
+  let hiGap = gap(hi.weights);
+  if (loGap >= 0) return lo;
+  if (hiGap <= 0) return hi;
+  let side = 0;
+  for (let k = 0; k < ROOT_FINDING_STEPS; k++) {
+    const tolerance = hi.tolerance - (hiGap * (hi.tolerance - lo.tolerance)) / (hiGap - loGap);
+    const point = { tolerance, weights: solveMeanVariance(model, tolerance, bounds, -loGap < hiGap ? lo.weights : hi.weights) };
+    const pointGap = gap(point.weights);
+    onStep?.();
+    if (Math.abs(pointGap) < RETURN_TOLERANCE) return point;
+    if (pointGap < 0) {
+      lo = point;
+      loGap = pointGap;
+      if (side === -1) hiGap /= 2;
+      side = -1;
+    } else {
+      hi = point;
+      hiGap = pointGap;
+      if (side === 1) loGap /= 2;
+      side = 1;
+    }
+  }
+  return hi;
+}
+
+/**
+ * Traces the efficient frontier at target returns spread evenly from the
+ * minimum-variance portfolio's return to the maximum-return corner. A logarithmic
+ * scan of the risk tolerance, each solve starting from the previous one, maps
+ * tolerance to return; each target is then solved for between the two scan points
+ * that bracket it. Points that add no return over the previous one are dropped.
+ * @returns Decimal weights, ordered from lowest to highest risk.
+ */
+export function efficientFrontierPortfolios(model: RiskModel, bounds?: WeightBounds, points = FRONTIER_POINTS): Vector[] {
+  const scan: FrontierPoint[] = [];
+  for (const tolerance of toleranceGrid(maxUsefulRiskTolerance(model, bounds))) {
+    scan.push({ tolerance, weights: solveMeanVariance(model, tolerance, bounds, scan[scan.length - 1]?.weights) });
+  }
+  const returns = scan.map(point => dot(point.weights, model.expectedReturns));
+  const lowest = returns[0];
+  const highest = returns[returns.length - 1];
+  if (highest - lowest < RETURN_TOLERANCE) return [scan[0].weights];
+
+  const frontier = [scan[0]];
+  let j = 0;
+  for (let k = 1; k < points; k++) {
+    const target = lowest + ((highest - lowest) * k) / (points - 1);
+    // Targets rise, so the scan interval bracketing each one only moves up
+    while (j < scan.length - 2 && returns[j + 1] < target) j++;
+    const point = k === points - 1 ? scan[scan.length - 1] : solveForReturn(model, target, bounds, scan[j], scan[j + 1]);
+    const previous = frontier[frontier.length - 1];
+    if (dot(point.weights, model.expectedReturns) - dot(previous.weights, model.expectedReturns) > RETURN_TOLERANCE) frontier.push(point);
+  }
+  return frontier.map(point => point.weights);
+}
+
+/**
+ * Finds the minimum-volatility portfolio whose expected return reaches a target.
+ * A target below the minimum-variance portfolio's return yields that portfolio.
+ * @param targetReturn Annualized expected return (decimal).
+ * @throws An error if the target is above the highest return the bounds allow.
+ */
+export function targetReturnPortfolio(model: RiskModel, targetReturn: number, bounds?: WeightBounds, onIteration?: IterationCallback): Vector {
+  const totalSteps = 2 + ROOT_FINDING_STEPS;
+  let step = 0;
+  const onStep = () => onIteration?.(++step, totalSteps);
+
+  const minimum: FrontierPoint = { tolerance: 0, weights: minimumVariancePortfolio(model, bounds) };
+  onStep();
+  const maxTolerance = maxUsefulRiskTolerance(model, bounds);
+  const highest: FrontierPoint = { tolerance: maxTolerance, weights: solveMeanVariance(model, maxTolerance, bounds) };
+  onStep();
+  const highestReturn = dot(highest.weights, model.expectedReturns);
+  if (targetReturn > highestReturn + TARGET_TOLERANCE) {
+    throw new Error(`The target return of ${(targetReturn * 100).toFixed(2)}% is above the highest expected return the constraints allow (${(highestReturn * 100).toFixed(2)}%).`);
+  }
+  const weights = solveForReturn(model, targetReturn, bounds, minimum, highest, onStep).weights;
+  onIteration?.(totalSteps, totalSteps);
+  return weights;
+}
+
+/**
+ * Finds the maximum-return portfolio whose volatility stays within a target, by
+ * bisecting the risk tolerance. A target above the maximum-return portfolio's
+ * volatility yields that portfolio.
+ * @param targetVolatility Annualized volatility (decimal).
+ * @throws An error if the target is below the lowest volatility the bounds allow.
+ */
+export function targetVolatilityPortfolio(model: RiskModel, targetVolatility: number, bounds?: WeightBounds, onIteration?: IterationCallback): Vector {
+  const totalSteps = 2 + BISECTION_STEPS;
+  let step = 0;
+
+  const minimum = minimumVariancePortfolio(model, bounds);
+  onIteration?.(++step, totalSteps);
+  const lowest = volatility(minimum, model);
+  if (targetVolatility < lowest - TARGET_TOLERANCE) {
+    throw new Error(`The target volatility of ${(targetVolatility * 100).toFixed(2)}% is below the lowest volatility the constraints allow (${(lowest * 100).toFixed(2)}%).`);
+  }
+  const maxTolerance = maxUsefulRiskTolerance(model, bounds);
+  const highest = solveMeanVariance(model, maxTolerance, bounds);
+  onIteration?.(++step, totalSteps);
+  if (volatility(highest, model) <= targetVolatility) {
+    onIteration?.(totalSteps, totalSteps);
+    return highest;
+  }
+
+  // Volatility rises with the risk tolerance; keep the riskiest portfolio within the target
+  let lo = 0;
+  let hi = maxTolerance;
+  let weights = minimum;
+  for (let k = 0; k < BISECTION_STEPS; k++) {
+    const mid = (lo + hi) / 2;
+    const candidate = solveMeanVariance(model, mid, bounds);
+    if (volatility(candidate, model) > targetVolatility) {
+      hi = mid;
+    } else {
+      lo = mid;
+      weights = candidate;
+    }
+    onIteration?.(++step, totalSteps);
+  }
+  return weights;
+}
+
+/**
+ * Solves for the frontier portfolio an objective selects.
+ * @param model Annualized expected returns and covariance.
+ * @param riskFreeRate Annualized risk-free rate (decimal), used by the maximum-Sharpe objective.
+ * @param settings Objective and its target (percentages). Defaults to the maximum Sharpe ratio.
+ * @param bounds Weight limits and group caps. Defaults to long-only.
+ * @throws An error if the target is missing or cannot be reached under the bounds.
+ */
+export function objectivePortfolio(
+  model: RiskModel,
+  riskFreeRate: number,
+  settings: ObjectiveSettings = DEFAULT_OBJECTIVE_SETTINGS,
+  bounds?: WeightBounds,
+  onIteration?: IterationCallback
+): Vector {
+  switch (settings.objective) {
+    case 'max-sharpe':
+      return maximumSharpePortfolio(model, riskFreeRate, bounds, onIteration);
+    case 'min-variance': {
+      const weights = minimumVariancePortfolio(model, bounds);
+      onIteration?.(1, 1);
+      return weights;
+    }
+    case 'target-volatility':
+      if (settings.targetVolatility === undefined || !Number.isFinite(settings.targetVolatility)) {
+        throw new Error("Enter a target volatility for the maximum-return objective.");
+      }
+      return targetVolatilityPortfolio(model, settings.targetVolatility / 100, bounds, onIteration);
+    case 'target-return':
+      if (settings.targetReturn === undefined || !Number.isFinite(settings.targetReturn)) {
+        throw new Error("Enter a target return for the minimum-volatility objective.");
+      }
+      return targetReturnPortfolio(model, settings.targetReturn / 100, bounds, onIteration);
+  }
+}
@@ -0,0 +1,182 @@
+// src/lib/optimizers/monte-carlo.ts
+
+/**
+ * @fileOverview Monte Carlo portfolio simulation.
+ * Draws random weight vectors (uniform on the simplex), evaluates each
+ * under the risk model, extracts the efficient frontier envelope and picks the
+ * best-Sharpe portfolio. A seeded generator makes runs reproducible.
+ * Under weight constraints each draw picks a random set of holdings, draws weights
+ * on it (with a random short leg when shorting is allowed) and projects them onto
+ * the feasible set.
+ */
+
+import type { RiskReturnChartData } from '@/types/portfolio';
+import type { RiskModel, Vector, IterationCallback } from '@/lib/portfolio-math';
+import { dot, portfolioVariance } from '@/lib/portfolio-math';
+import { createSeededRandom } from '@/lib/random';
+import { assertFeasible, isLongOnly, longOnlyBounds, projectOntoFeasibleSet, satisfiesBounds, type WeightBounds } from '@/lib/constraints';
+
+export const DEFAULT_SIMULATIONS = 5000;
+export const MAX_SIMULATIONS = 100000;
+const MAX_CHART_POINTS = 1000; // Simulated portfolios returned for plotting
+const PROGRESS_EVERY = 500;     // Simulations between progress callbacks
+const SUPPORT_ATTEMPTS = 20;    // Random sets of holdings tried per constrained draw
+
+export interface MonteCarloResult {
+  weights: Vector;                      // Best-Sharpe portfolio
+  portfolios: RiskReturnChartData[];    // Sample of simulated portfolios for the scatter chart
+  envelope: RiskReturnChartData[];      // Upper-left frontier of the simulated cloud, ordered by risk
+  simulations: number;
+  seed: number;
+}
+
+/**
+ * Draws a weight vector uniformly from the simplex (Dirichlet(1, ..., 1)).
+ */
+function randomWeights(numAssets: number, random: () => number): Vector {
+  const draws = Array.from({ length: numAssets }, () => -Math.log(1 - random()));
+  const total = draws.reduce((acc, x) => acc + x, 0);
+  return draws.map(x => x / total);
+}
+
+/**
+ * Draws a feasible weight vector: a random set of `holdings` assets (always including
+ * those with a positive minimum weight) gets Dirichlet weights, which are then
+ * projected onto the bounds with every other asset held at 0. When the bounds allow
+ * short positions, a random subset of the holdings forms a short leg of random size.
+ * @returns The weights, or null if none of the sets of holdings tried can meet the bounds.
+ */
+function randomConstrainedWeights(bounds: WeightBounds, holdings: number, random: () => number): Vector | null {
+  for (let attempt = 0; attempt < SUPPORT_ATTEMPTS; attempt++) {
+    const weights = randomSupportWeights(bounds, holdings, random);
+    if (satisfiesBounds(weights, bounds)) return weights;
+  }
+  return null;
+}
+
+function randomSupportWeights(bounds: WeightBounds, holdings: number, random: () => number): Vector {
+  const numAssets = bounds.lower.length;
+  const indices = bounds.lower.map((_, i) => i);
+  const required = indices.filter(i => bounds.lower[i] > 0);
+  const optional = indices.filter(i => bounds.lower[i] <= 0 && (bounds.upper[i] > 0 || bounds.lower[i] < 0));
+  // Partial Fisher-Yates shuffle picks the optional holdings
+  for (let k = optional.length - 1; k > 0; k--) {
+    const j = Math.floor(random() * (k + 1));
+    [optional[k], optional[j]] = [optional[j], optional[k]];
+  }
+  const support = new Set([...required, ...optional.slice(0, Math.max(holdings - required.length, 0))]);
+
+  // Each shortable holding joins the short leg with probability ½; the leg's size is uniform up to the gross limit
+  let isShort = indices.map(i => support.has(i) && bounds.lower[i] < 0 && random() < 0.5);
+  if ([...support].every(i => isShort[i])) isShort = isShort.map(() => false); // Keep a long leg to carry the budget
+  const maxShort = Math.min(
+    bounds.maxGrossExposure !== undefined ? (bounds.maxGrossExposure - 1) / 2 : Infinity,
+    -indices.reduce((acc, i) => acc + (isShort[i] ? bounds.lower[i] : 0), 0)
+  );
+  const shortTotal = isShort.some(Boolean) ? random() * maxShort : 0;
+
+  const draws = randomWeights(numAssets, random);
+  const legTotal = (short: boolean) => indices.reduce((acc, i) => acc + (support.has(i) && isShort[i] === short ? draws[i] : 0), 0);
+  const longTotal = legTotal(false);
+  const shortDraws = legTotal(true);
+  const weights = indices.map(i => {
+    if (!support.has(i)) return 0;
+    return isShort[i] ? (-shortTotal * draws[i]) / shortDraws : ((1 + shortTotal) * draws[i]) / longTotal;
+  });
+  return projectOntoFeasibleSet(weights, {
+    ...bounds,
+    lower: bounds.lower.map((l, i) => (support.has(i) ? l : 0)),
+    upper: bounds.upper.map((u, i) => (support.has(i) ? u : 0)),
+  });
+}
+
+/**
+ * Keeps the portfolios that no other portfolio beats with lower or equal risk.
+ * @param points Simulated portfolios.
+ * @returns The frontier envelope ordered from lowest to highest risk.
+ */
+export function extractFrontierEnvelope(points: RiskReturnChartData[]): RiskReturnChartData[] {
+  const sorted = [...points].sort((a, b) => a.risk - b.risk);
+  const envelope: RiskReturnChartData[] = [];
+  let bestReturn = -Infinity;
+  for (const point of sorted) {
+    if (point.return > bestReturn) {
+      envelope.push(point);
+      bestReturn = point.return;
+    }
+  }
+  return envelope;
+}
+
+/**
+ * Runs the Monte Carlo simulation.
+ * @param model Annualized expected returns and covariance.
+ * @param riskFreeRate Annualized risk-free rate (decimal) used to rank portfolios.
+ * @param simulations Number of random portfolios to draw.
+ * @param seed Seed for the random generator. A random seed is chosen (and reported) if omitted.
+ * @param bounds Weight constraints. Defaults to long-only, fully invested.
+ * @param maxHoldings Maximum number of assets held by each simulated portfolio.
+ * @param onIteration Called every few hundred simulations with the number completed.
+ * @throws An error if the constraints are infeasible.
+ */
+export function runMonteCarloSimulation(
+  model: RiskModel,
+  riskFreeRate: number,
+  simulations = DEFAULT_SIMULATIONS,
+  seed?: number,
+  bounds?: WeightBounds,
+  maxHoldings?: number,
+  onIteration?: IterationCallback
+): MonteCarloResult {
+  const numAssets = model.assets.length;
+  const count = Math.min(Math.max(Math.floor(simulations), 1), MAX_SIMULATIONS);
+  const usedSeed = seed !== undefined && Number.isFinite(seed) ? Math.floor(seed) : Math.floor(Math.random() * 2 ** 31);
+  const random = createSeededRandom(usedSeed);
+  const sampleEvery = Math.max(1, Math.ceil(count / MAX_CHART_POINTS));
+  // Unconstrained runs keep the plain simplex draws so existing seeds reproduce
+  const constrained = (bounds !== undefined && !isLongOnly(bounds)) || maxHoldings !== undefined;
+  const feasibleBounds = bounds ?? longOnlyBounds(numAssets);
+  const holdings = Math.min(maxHoldings ?? numAssets, numAssets);
+  if (constrained) {
+    assertFeasible(feasibleBounds);
+    const required = feasibleBounds.lower.filter(x => x > 0).length;
+    if (required > holdings) {
+      throw new Error(`Constraints are infeasible: ${required} assets have a minimum weight, but at most ${holdings} holdings are allowed.`);
+    }
+  }
+
+  const points: RiskReturnChartData[] = [];
+  const portfolios: RiskReturnChartData[] = [];
+  let bestWeights: Vector = new Array(numAssets).fill(1 / numAssets);
+  let bestSharpe = -Infinity;
+
+  for (let k = 0; k < count; k++) {
+    const weights = constrained ? randomConstrainedWeights(feasibleBounds, holdings, random) : randomWeights(numAssets, random);
+    if (weights) {
+      const expectedReturn = dot(weights, model.expectedReturns);
+      const risk = Math.sqrt(Math.max(portfolioVariance(weights, model.covariance), 0));
+      const sharpe = risk > 0 ? (expectedReturn - riskFreeRate) / risk : -Infinity;
+      if (sharpe > bestSharpe) {
+        bestSharpe = sharpe;
+        bestWeights = weights;
+      }
+
+      const point = { risk: parseFloat((risk * 100).toFixed(2)), return: parseFloat((expectedReturn * 100).toFixed(2)) };
+      points.push(point);
+      if (k % sampleEvery === 0) portfolios.push(point);
+    }
+    if (onIteration && ((k + 1) % PROGRESS_EVERY === 0 || k + 1 === count)) onIteration(k + 1, count);
+  }
+
+  if (points.length === 0) {
+    throw new Error(`None of the ${count} simulated portfolios met the constraints. Loosen the weight limits or allow more holdings.`);
+  }
+
+  return {
+    weights: bestWeights,
+    portfolios,
+    envelope: extractFrontierEnvelope(points),
+    simulations: count,
+    seed: usedSeed,
+  };
+}
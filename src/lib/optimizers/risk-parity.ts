@@ -0,0 +1,108 @@
+// src/lib/optimizers/risk-parity.ts
+
+/**
+ * @fileOverview Equal-risk-contribution (Risk Parity) optimizer.
+ * Minimizes ½yᵀΣy - Σ b_i·log(y_i) by cyclical coordinate descent, where each
+ * coordinate update has a closed-form solution. The normalized minimizer
+ * w = y / Σy gives every asset a risk contribution proportional to its budget b_i.
+ * Under weight constraints the same objective is minimized over the feasible set by
+ * projected gradient descent (see `constrainedRiskParity`).
+ */
+
+import type { Matrix, Vector } from '@/lib/portfolio-math';
+import { dot, portfolioVariance } from '@/lib/portfolio-math';
+import { assertFeasible, isLongOnly, feasibleSetProjector, type WeightBounds } from '@/lib/constraints';
+
+const MAX_SWEEPS = 10000;
+const CONVERGENCE_TOLERANCE = 1e-12;
+const MAX_OUTER_ITERATIONS = 100;   // Updates of the barrier weight λ
+const MAX_GRADIENT_STEPS = 500;     // Projected gradient steps per λ
+const GRADIENT_TOLERANCE = 1e-10;
+const MIN_WEIGHT = 1e-8;            // Keeps budgeted weights inside the log barrier's domain
+
+/**
+ * Risk parity under weight constraints. Minimizes ½wᵀΣw - λ·Σ b_i·log(w_i) over the
+ * feasible set, re-setting λ = wᵀΣw until it settles: at that fixed point the
+ * budget multiplier vanishes, so when no constraint binds the solution is exactly
+ * the equal-risk-contribution portfolio. Assets whose upper bound is 0 get no budget.
+ */
+function constrainedRiskParity(covariance: Matrix, budgets: Vector, bounds: WeightBounds): Vector {
+  const held = bounds.upper.map(u => u > 0);
+  const heldBudget = budgets.reduce((acc, b, i) => acc + (held[i] ? b : 0), 0);
+  const b = budgets.map((x, i) => (held[i] ? x / heldBudget : 0));
+  const barrierBounds: WeightBounds = {
+    ...bounds,
+    lower: bounds.lower.map((l, i) => (held[i] ? Math.max(l, Math.min(MIN_WEIGHT, bounds.upper[i])) : l)),
+  };
+  assertFeasible(barrierBounds);
+
+  const objective = (w: Vector, lambda: number) =>
+    0.5 * portfolioVariance(w, covariance) - lambda * w.reduce((acc, x, i) => acc + (b[i] > 0 ? b[i] * Math.log(x) : 0), 0);
+  const gradient = (w: Vector, lambda: number) =>
+    covariance.map((row, i) => dot(row, w) - (b[i] > 0 ? (lambda * b[i]) / w[i] : 0));
+
+  const start = covariance.map((row, i) => (held[i] ? 1 / Math.sqrt(row[i]) : 0));
+  const startTotal = start.reduce((acc, x) => acc + x, 0);
+  const project = feasibleSetProjector(barrierBounds);
+  let w = project(start.map(x => x / startTotal));
+  let step = 1;
+
+  for (let outer = 0; outer < MAX_OUTER_ITERATIONS; outer++) {
+    const lambda = portfolioVariance(w, covariance);
+    for (let k = 0; k < MAX_GRADIENT_STEPS; k++) {
+      const g = gradient(w, lambda);
+      const value = objective(w, lambda);
+      let next = w;
+      // Backtracking: shrink the step until the quadratic upper bound holds
+      for (let tries = 0; tries < 60; tries++) {
+        next = project(w.map((x, i) => x - step * g[i]));
+        const diff = next.map((x, i) => x - w[i]);
+        if (objective(next, lambda) <= value + dot(g, diff) + dot(diff, diff) / (2 * step)) break;
+        step /= 2;
+      }
+      const change = Math.max(...next.map((x, i) => Math.abs(x - w[i])));
+      w = next;
+      step *= 2;
+      if (change < GRADIENT_TOLERANCE) break;
+    }
+    if (Math.abs(portfolioVariance(w, covariance) - lambda) <= GRADIENT_TOLERANCE * lambda) break;
+  }
+  return w;
+}
+
+/**
+ * Solves for risk-parity weights.
+ * @param covariance Annualized covariance matrix.
+ * @param riskBudgets Target share of risk per asset. Defaults to equal budgets.
+ * @param bounds Weight constraints. Defaults to long-only, fully invested.
+ * @returns Decimal weights summing to 1.
+ * @throws An error if an asset has zero variance (its risk cannot be budgeted) or the bounds are infeasible.
+ */
+export function riskParityPortfolio(covariance: Matrix, riskBudgets?: Vector, bounds?: WeightBounds): Vector {
+  const n = covariance.length;
+  const budgets = riskBudgets ?? new Array(n).fill(1 / n);
+  if (covariance.some((row, i) => !(row[i] > 0))) {
+    throw new Error("Risk Parity requires every asset to have non-zero variance over the selected period.");
+  }
+  if (bounds && !isLongOnly(bounds)) {
+    return constrainedRiskParity(covariance, budgets, bounds);
+  }
+
+  // Start from inverse-volatility weights, which are exact when assets are uncorrelated
+  let y: Vector = covariance.map((row, i) => 1 / Math.sqrt(row[i]));
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let maxChange = 0;
+    for (let i = 0; i < n; i++) {
+      const sigmaII = covariance[i][i];
+      const crossTerm = dot(covariance[i], y) - sigmaII * y[i];
+      const updated = (-crossTerm + Math.sqrt(crossTerm * crossTerm + 4 * sigmaII * budgets[i])) / (2 * sigmaII);
+      maxChange = Math.max(maxChange, Math.abs(updated - y[i]) / Math.max(updated, 1e-300));
+      y[i] = updated;
+    }
+    if (maxChange < CONVERGENCE_TOLERANCE) break;
+  }
+
+  const total = y.reduce((acc, x) => acc + x, 0);
+  return y.map(x => x / total);
+}
@@ -0,0 +1,299 @@
+// src/lib/portfolio-math.ts
+
+/**
+ * @fileOverview Numerical helpers shared by the portfolio optimizers.
+ * Turns fetched price series into an aligned return matrix, computes sample
+ * mean returns and covariance (annualized risk models are built in estimators.ts),
+ * and provides the small amount of linear algebra the optimizers need.
+ */
+
+import type { StockData, AssetAllocation, PortfolioMetrics, PortfolioExposure } from '@/types/portfolio';
+
+export type Vector = number[];
+export type Matrix = number[][];
+
+// Progress callback for iterative solvers: `completed` of `total` steps are done
+export type IterationCallback = (completed: number, total: number) => void;
+
+// Aligned periodic returns for a set of assets
+export interface ReturnSeries {
+  assets: string[]; // Ticker symbols, in column order
+  dates: string[];  // Date at the end of each return period
+  returns: Matrix;  // returns[t][i] = simple return of asset i over period t
+}
+
+// Annualized inputs consumed by the optimizers
+export interface RiskModel {
+  assets: string[];
+  expectedReturns: Vector; // Annualized mean returns (decimal, e.g. 0.12)
+  covariance: Matrix;      // Annualized covariance matrix
+}
+
+// Number of return observations per year for each data interval.
+// Lookback intervals (1y ... 10y) are daily bars trimmed to a window.
+const PERIODS_PER_YEAR: { [interval: string]: number } = {
+  daily: 252,
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4,
+  yearly: 1,
+  '1y': 252,
+  '2y': 252,
+  '5y': 252,
+  '10y': 252,
+};
+
+/**
+ * Returns the annualization factor for a data interval.
+ * Unknown intervals are treated as daily data.
+ * @param interval The data interval string (e.g., 'daily', 'weekly').
+ */
+export function periodsPerYear(interval: string): number {
+  return PERIODS_PER_YEAR[interval] ?? PERIODS_PER_YEAR.daily;
+}
+
+/**
+ * Aligns the adjusted close series of several tickers on their common dates
+ * and converts them into simple periodic returns.
+ * @param stockData Historical bars keyed by ticker.
+ * @returns The aligned return matrix. Tickers without usable prices are dropped.
+ */
+export function buildReturnSeries(stockData: Record<string, StockData[]>): ReturnSeries {
+  const priceMaps: Record<string, Map<string, number>> = {};
+  for (const [ticker, bars] of Object.entries(stockData)) {
+    const prices = new Map<string, number>();
+    for (const bar of bars) {
+      if (Number.isFinite(bar.adjClose) && bar.adjClose > 0) {
+        prices.set(bar.date, bar.adjClose);
+      }
+    }
+    if (prices.size > 1) {
+      priceMaps[ticker] = prices;
+    }
+  }
+
+  const assets = Object.keys(priceMaps);
+  if (assets.length === 0) {
+    return { assets, dates: [], returns: [] };
+  }
+
+  // Keep only the dates every asset has a price for, in chronological order
+  const commonDates = Array.from(priceMaps[assets[0]].keys())
+    .filter(date => assets.every(asset => priceMaps[asset].has(date)))
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+  const dates: string[] = [];
+  const returns: Matrix = [];
+  for (let t = 1; t < commonDates.length; t++) {
+    const prev = commonDates[t - 1];
+    const curr = commonDates[t];
+    dates.push(curr);
+    returns.push(assets.map(asset => priceMaps[asset].get(curr)! / priceMaps[asset].get(prev)! - 1));
+  }
+
+  return { assets, dates, returns };
+}
+
+/**
+ * Column means of a return matrix.
+ */
+export function meanReturns(returns: Matrix): Vector {
+  const numAssets = returns[0]?.length ?? 0;
+  const means = new Array(numAssets).fill(0);
+  for (const row of returns) {
+    for (let i = 0; i < numAssets; i++) means[i] += row[i];
+  }
+  return means.map(sum => sum / returns.length);
+}
+
+/**
+ * Sample covariance matrix (n - 1 denominator) of a return matrix.
+ */
+export function covarianceMatrix(returns: Matrix): Matrix {
+  const numAssets = returns[0]?.length ?? 0;
+  const means = meanReturns(returns);
+  const cov: Matrix = Array.from({ length: numAssets }, () => new Array(numAssets).fill(0));
+  const denominator = Math.max(returns.length - 1, 1);
+
+  for (const row of returns) {
+    for (let i = 0; i < numAssets; i++) {
+      const di = row[i] - means[i];
+      for (let j = i; j < numAssets; j++) {
+        cov[i][j] += di * (row[j] - means[j]);
+      }
+    }
+  }
+  for (let i = 0; i < numAssets; i++) {
+    for (let j = i; j < numAssets; j++) {
+      cov[i][j] /= denominator;
+      cov[j][i] = cov[i][j];
+    }
+  }
+  return cov;
+}
+
+/**
+ * Periodic returns of a portfolio held at constant weights (rebalanced every period).
+ */
+export function portfolioReturns(weights: Vector, returns: Matrix): Vector {
+  return returns.map(row => dot(weights, row));
+}
+
+/**
+ * Annualized Sharpe ratio of a periodic return series:
+ * mean(r - rf) / std(r - rf) · √periodsPerYear, with the sample standard deviation.
+ * @param returns Periodic portfolio returns (decimal).
+ * @param riskFreeRates Per-period risk-free rates aligned with `returns` (decimal).
+ * @param periodsPerYear Annualization factor (252 daily, 52 weekly, 12 monthly, ...).
+ * @returns The ratio, or undefined if the excess returns have no variability.
+ */
+export function annualizedSharpeRatio(returns: Vector, riskFreeRates: Vector, periodsPerYear: number): number | undefined {
+  if (returns.length < 2) return undefined;
+  const excess = returns.map((r, t) => r - riskFreeRates[t]);
+  const mean = excess.reduce((acc, x) => acc + x, 0) / excess.length;
+  const variance = excess.reduce((acc, x) => acc + (x - mean) ** 2, 0) / (excess.length - 1);
+  if (!(variance > 0)) return undefined;
+  return (mean / Math.sqrt(variance)) * Math.sqrt(periodsPerYear);
+}
+
+// --- Linear Algebra ---
+
+export function dot(a: Vector, b: Vector): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export function matVec(m: Matrix, v: Vector): Vector {
+  return m.map(row => dot(row, v));
+}
+
+/**
+ * Portfolio variance wᵀΣw.
+ */
+export function portfolioVariance(weights: Vector, covariance: Matrix): number {
+  return dot(weights, matVec(covariance, weights));
+}
+
+export function transpose(m: Matrix): Matrix {
+  return (m[0] ?? []).map((_, j) => m.map(row => row[j]));
+}
+
+/**
+ * Solves the linear system A·x = b by Gaussian elimination with partial pivoting.
+ * @throws An error if the matrix is singular.
+ */
+export function solveLinearSystem(a: Matrix, b: Vector): Vector {
+  const n = b.length;
+  const augmented = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(augmented[row][col]) > Math.abs(augmented[pivot][col])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][col]) < 1e-14) {
+      throw new Error("Matrix is singular; the linear system has no unique solution.");
+    }
+    [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = augmented[row][col] / augmented[col][col];
+      for (let k = col; k <= n; k++) augmented[row][k] -= factor * augmented[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = augmented[row][n];
+    for (let k = row + 1; k < n; k++) sum -= augmented[row][k] * x[k];
+    x[row] = sum / augmented[row][row];
+  }
+  return x;
+}
+
+/**
+ * Largest eigenvalue of a symmetric positive semi-definite matrix, by power iteration.
+ */
+export function largestEigenvalue(m: Matrix, iterations = 100): number {
+  const n = m.length;
+  if (n === 0) return 0;
+  let v: Vector = new Array(n).fill(1 / Math.sqrt(n));
+  let eigenvalue = 0;
+  for (let k = 0; k < iterations; k++) {
+    const mv = matVec(m, v);
+    const norm = Math.sqrt(dot(mv, mv));
+    if (norm === 0) return 0;
+    v = mv.map(x => x / norm);
+    eigenvalue = norm;
+  }
+  return eigenvalue;
+}
+
+/**
+ * Share of total portfolio variance contributed by each asset, w_i(Σw)_i / wᵀΣw.
+ * The shares sum to 1.
+ */
+export function riskContributions(weights: Vector, covariance: Matrix): Vector {
+  const marginal = matVec(covariance, weights);
+  const variance = dot(weights, marginal);
+  if (variance <= 0) return weights.map(() => 0);
+  return weights.map((w, i) => (w * marginal[i]) / variance);
+}
+
+// --- Result Formatting ---
+
+/**
+ * Converts decimal weights into percentage allocations, sorted by size (shorts last).
+ * Rounds to two decimals and assigns the rounding residue to the largest
+ * position so the allocations sum to exactly the intended total.
+ * When a covariance matrix is given, each allocation also carries its share of portfolio risk.
+ */
+export function weightsToAllocations(assets: string[], weights: Vector, covariance?: Matrix): AssetAllocation[] {
+  const contributions = covariance ? riskContributions(weights, covariance) : undefined;
+  const allocations: AssetAllocation[] = assets
+    .map((asset, i) => ({
+      asset,
+      allocation: parseFloat((weights[i] * 100).toFixed(2)),
+      ...(contributions ? { riskContribution: parseFloat((contributions[i] * 100).toFixed(2)) } : {}),
+    }))
+    .sort((a, b) => b.allocation - a.allocation);
+
+  if (allocations.length > 0) {
+    const target = parseFloat((weights.reduce((acc, w) => acc + w, 0) * 100).toFixed(2));
+    const sum = allocations.reduce((acc, curr) => acc + curr.allocation, 0);
+    allocations[0].allocation = parseFloat((allocations[0].allocation + target - sum).toFixed(2));
+  }
+  return allocations;
+}
+
+/**
+ * Computes the annualized metrics of a portfolio under a risk model.
+ * @param weights Decimal portfolio weights, aligned with the model's assets.
+ * @param model The annualized risk model.
+ * @param riskFreeRate Annualized risk-free rate (decimal) used for the Sharpe ratio.
+ */
+export function computePortfolioMetrics(weights: Vector, model: RiskModel, riskFreeRate: number): PortfolioMetrics {
+  const expectedReturn = dot(weights, model.expectedReturns);
+  const risk = Math.sqrt(Math.max(portfolioVariance(weights, model.covariance), 0));
+  return {
+    expectedReturn: parseFloat((expectedReturn * 100).toFixed(2)),
+    risk: parseFloat((risk * 100).toFixed(2)),
+    sharpeRatio: risk > 0 ? parseFloat(((expectedReturn - riskFreeRate) / risk).toFixed(2)) : undefined,
+  };
+}
+
+/**
+ * Splits a portfolio's exposure into its long and short legs (percentages).
+ * @param weights Decimal portfolio weights; negative weights are short positions.
+ */
+export function computePortfolioExposure(weights: Vector): PortfolioExposure {
+  const long = weights.reduce((acc, w) => acc + Math.max(w, 0), 0);
+  const short = weights.reduce((acc, w) => acc + Math.max(-w, 0), 0);
+  return {
+    long: parseFloat((long * 100).toFixed(2)),
+    short: parseFloat((short * 100).toFixed(2)),
+    gross: parseFloat(((long + short) * 100).toFixed(2)),
+    net: parseFloat(((long - short) * 100).toFixed(2)),
+  };
+}
@@ -0,0 +1,41 @@
+// src/lib/random.ts
+
+/**
+ * @fileOverview Deterministic pseudo-random helpers.
+ * Used wherever results must be reproducible (Monte Carlo runs, mock price data).
+ */
+
+/**
+ * Creates a deterministic pseudo-random generator (mulberry32) returning values in [0, 1).
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hashes a string into a 32-bit seed (FNV-1a).
+ */
+export function hashString(value: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Draws a standard normal variate from a uniform generator (Box-Muller).
+ */
+export function standardNormal(random: () => number): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
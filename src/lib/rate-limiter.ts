@@ -19,6 +19,16 @@ interface RequestPermissionResult {
 
 const DEFAULT_WARNING_THRESHOLD = 0.1; // Warn if less than 10% quota remaining
 
+/**
+ * Thrown by `acquire` when a request would have to wait longer than the caller accepts.
+ */
+class RateLimitExceededError extends Error {
+  constructor(message: string, public readonly retryAfterMs: number) {
+    super(message);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
 class RateLimiter {
   private hourlyLimit: number;
   private dailyLimit: number;
@@ -159,6 +169,37 @@ class RateLimiter {
     return { allowed: true, warning };
   }
 
+  /**
+   * Waits until a request is allowed and records it.
+   * @param maxWaitMs The longest acceptable total wait. Defaults to waiting as long as needed.
+   * @throws RateLimitExceededError if the limit would require waiting longer than `maxWaitMs`.
+   */
+  public async acquire(maxWaitMs: number = Infinity): Promise<void> {
+    let permission = this.requestPermission();
+    let waitedMs = 0;
+
+    while (!permission.allowed) {
+      const delayTime = permission.delayMs || 1000; // Default delay if calculation fails
+      if (waitedMs + delayTime > maxWaitMs) {
+        throw new RateLimitExceededError(
+          `Rate limit reached: ${permission.warning ?? 'no requests left.'} Retry in about ${Math.ceil(delayTime / 60000)} minute(s).`,
+          delayTime
+        );
+      }
+      console.log(`Rate Limiter: Delaying request for ${delayTime}ms due to rate limit.`);
+      await delay(delayTime); // Use the exported delay function
+      waitedMs += delayTime;
+      permission = this.requestPermission(); // Re-check after delay
+    }
+
+    // Log the warning if one was generated just before this request was allowed
+    if (permission.warning) {
+      console.warn("Rate Limiter Pre-Request Warning:", permission.warning);
+      // Note: This warning is captured *before* the successful request is made.
+      // The check after fetching in optimizePortfolio provides the *post-request* status.
+    }
+  }
+
    /**
     * Decorator function to wrap an async function with rate limiting.
     * Checks permission *before* executing the function. If rate limited, it waits.
@@ -167,23 +208,8 @@ class RateLimiter {
     */
     public wrapAsync<T extends (...args: any[]) => Promise<any>>(fn: T): T {
         const rateLimitedFn = async (...args: Parameters<T>): Promise<ReturnType<T>> => {
-            let permission = this.requestPermission();
-
-            while (!permission.allowed) {
-                const delayTime = permission.delayMs || 1000; // Default delay if calculation fails
-                console.log(`Rate Limiter: Delaying request for ${delayTime}ms due to rate limit.`);
-                await delay(delayTime); // Use the exported delay function
-                permission = this.requestPermission(); // Re-check after delay
-            }
-
-             // Log the warning if one was generated just before this request was allowed
-             if (permission.warning) {
-                console.warn("Rate Limiter Pre-Request Warning:", permission.warning);
-                // Note: This warning is captured *before* the successful request is made.
-                // The check after the loop in optimizePortfolio provides the *post-request* status.
-             }
-
-             // Permission granted (or obtained after delay), execute the function
+            await this.acquire();
+            // Permission granted (or obtained after delay), execute the function
             return fn(...args);
         };
         // Casting to T preserves the original function's signature for the caller
@@ -207,5 +233,5 @@ const yfinanceRateLimiter = new RateLimiter({
 const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
 
 
-export { yfinanceRateLimiter, delay };
-export type { RequestPermissionResult };
+export { yfinanceRateLimiter, delay, RateLimitExceededError };
+export type { RateLimiter, RequestPermissionResult };
@@ -0,0 +1,106 @@
+// src/lib/risk-free-rate.ts
+
+/**
+ * @fileOverview Risk-free rate handling for Sharpe ratios.
+ * The rate is either a constant or a T-bill yield series loaded from a local CSV
+ * file (e.g. FRED's DTB3 download). Annual yields are converted to per-period rates
+ * by dividing by the periods per year, matching the arithmetic annualization of
+ * the risk model (mean × periods per year).
+ */
+
+import type { RateObservation, RiskFreeRateSettings } from '@/types/portfolio';
+import { splitCsvLine } from '@/lib/ticker-parser';
+
+// Annual risk-free rate (percentage) used when none is configured
+export const DEFAULT_RISK_FREE_RATE = 2;
+
+// Header names recognized as the date column (compared case-insensitively)
+const DATE_COLUMN_NAMES = ['date', 'observation_date', 'timestamp'];
+
+export interface ParsedRateSeries {
+  observations: RateObservation[]; // Sorted by date
+  skippedRows: number;             // Rows without a parsable date or rate (e.g. FRED's "." for holidays)
+}
+
+/**
+ * Parses a T-bill yield file: a CSV with a date column and a yield column in
+ * percent per year. The yield column is the first column other than the date.
+ * @param content The file's text content.
+ * @throws An error if the file has no header row or no usable observations.
+ */
+export function parseRateSeries(content: string): ParsedRateSeries {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) {
+    throw new Error("The risk-free rate file must have a header row and at least one observation.");
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map(name => name.toLowerCase());
+  const dateColumn = Math.max(header.findIndex(name => DATE_COLUMN_NAMES.includes(name)), 0);
+  const rateColumn = header.findIndex((_, i) => i !== dateColumn);
+  if (rateColumn < 0) {
+    throw new Error("The risk-free rate file must have a date column and a rate column.");
+  }
+
+  const observations: RateObservation[] = [];
+  let skippedRows = 0;
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line, delimiter);
+    const time = new Date(cells[dateColumn] ?? '').getTime();
+    const rate = parseFloat(cells[rateColumn] ?? '');
+    if (Number.isNaN(time) || !Number.isFinite(rate)) {
+      skippedRows++;
+      continue;
+    }
+    observations.push({ date: new Date(time).toISOString().slice(0, 10), rate });
+  }
+  if (observations.length === 0) {
+    throw new Error("No valid rate observations were found in the risk-free rate file.");
+  }
+
+  observations.sort((a, b) => a.date.localeCompare(b.date));
+  return { observations, skippedRows };
+}
+
+/**
+ * Per-period risk-free rates (decimal) aligned with the return dates. Each period
+ * uses the latest observation on or before its date; periods before the first
+ * observation use the first one.
+ * @param settings The configured rate. Defaults to a constant DEFAULT_RISK_FREE_RATE.
+ * @param dates Date at the end of each return period, in chronological order.
+ * @param periodsPerYear Annualization factor of the return series.
+ */
+export function periodRiskFreeRates(settings: RiskFreeRateSettings | undefined, dates: string[], periodsPerYear: number): number[] {
+  if (!settings || settings.source === 'constant') {
+    const rate = settings?.rate ?? DEFAULT_RISK_FREE_RATE;
+    return dates.map(() => rate / 100 / periodsPerYear);
+  }
+
+  const { observations } = settings;
+  let next = 0;
+  return dates.map(date => {
+    while (next < observations.length && observations[next].date <= date) next++;
+    const observation = observations[Math.max(next - 1, 0)];
+    return observation.rate / 100 / periodsPerYear;
+  });
+}
+
+/**
+ * Describes where the rate came from, for display next to the metrics.
+ */
+export function describeRiskFreeRate(settings: RiskFreeRateSettings | undefined): string {
+  return settings?.source === 'series' ? `T-bill series (${settings.fileName})` : 'Constant';
+}
+
+/**
+ * Explains how a rate series that does not span the return dates was extended.
+ * @returns A warning, or undefined when the series covers every period (or the rate is constant).
+ */
+export function rateSeriesCoverageWarning(settings: RiskFreeRateSettings | undefined, dates: string[]): string | undefined {
+  if (settings?.source !== 'series' || dates.length === 0) return undefined;
+  const first = settings.observations[0].date;
+  if (first > dates[0]) {
+    return `The risk-free rate series ${settings.fileName} starts on ${first}, after the first return date (${dates[0]}); earlier periods use its first observation.`;
+  }
+  return undefined;
+}
@@ -0,0 +1,254 @@
+// src/lib/risk-metrics.ts
+
+/**
+ * @fileOverview Risk metrics of a portfolio's historical return series:
+ * Sortino ratio, maximum drawdown and its duration, historical and parametric
+ * (normal) Value at Risk and CVaR, beta against a benchmark and the Calmar ratio.
+ * VaR and CVaR are one-period figures on the data interval, reported as positive losses.
+ */
+
+import type { StockData, ValueAtRisk, PortfolioMetrics } from '@/types/portfolio';
+import type { Vector } from '@/lib/portfolio-math';
+
+// Confidence levels reported for VaR and CVaR
+export const VAR_CONFIDENCE_LEVELS = [0.95, 0.99];
+
+export interface DrawdownStats {
+  maxDrawdown: number;      // Largest peak-to-trough loss (decimal, positive)
+  peakDate: string;
+  troughDate: string;
+  recoveryDate?: string;    // First date back at the peak value; undefined if not recovered
+  durationPeriods: number;  // Periods from the peak to the recovery (or to the end of the series)
+}
+
+function mean(values: Vector): number {
+  return values.reduce((acc, x) => acc + x, 0) / values.length;
+}
+
+export function sampleStandardDeviation(values: Vector): number {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((acc, x) => acc + (x - m) ** 2, 0) / Math.max(values.length - 1, 1));
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation, relative error below 1.2e-9).
+ */
+export function normalQuantile(p: number): number {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+function normalDensity(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Annualized Sortino ratio: mean excess return over the downside deviation
+ * (root mean square of negative excess returns), scaled by √periodsPerYear.
+ * @returns The ratio, or undefined if there are no losing periods.
+ */
+export function sortinoRatio(returns: Vector, riskFreeRates: Vector, periodsPerYear: number): number | undefined {
+  const excess = returns.map((r, t) => r - riskFreeRates[t]);
+  const downside = Math.sqrt(excess.reduce((acc, x) => acc + Math.min(x, 0) ** 2, 0) / excess.length);
+  if (!(downside > 0)) return undefined;
+  return (mean(excess) / downside) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Maximum drawdown of the cumulative value of the return series and how long it lasted.
+ * @param returns Periodic returns.
+ * @param dates Date at the end of each period, aligned with `returns`.
+ */
+export function maximumDrawdown(returns: Vector, dates: string[]): DrawdownStats {
+  let value = 1;
+  let peak = 1;
+  let peakIndex = -1; // -1 is the starting value before the first period
+  let stats = { maxDrawdown: 0, peakIndex: -1, troughIndex: -1 };
+
+  returns.forEach((r, t) => {
+    value *= 1 + r;
+    if (value > peak) {
+      peak = value;
+      peakIndex = t;
+    }
+    const drawdown = 1 - value / peak;
+    if (drawdown > stats.maxDrawdown) {
+      stats = { maxDrawdown: drawdown, peakIndex, troughIndex: t };
+    }
+  });
+
+  // Walk forward from the trough until the peak value is regained
+  let recoveryIndex: number | undefined = undefined;
+  if (stats.maxDrawdown > 0) {
+    let peakValue = 1;
+    for (let t = 0; t <= stats.peakIndex; t++) peakValue *= 1 + returns[t];
+    let current = peakValue * (1 - stats.maxDrawdown);
+    for (let t = stats.troughIndex + 1; t < returns.length; t++) {
+      current *= 1 + returns[t];
+      if (current >= peakValue) {
+        recoveryIndex = t;
+        break;
+      }
+    }
+  }
+
+  const dateAt = (index: number) => dates[Math.max(index, 0)];
+  const endIndex = recoveryIndex ?? returns.length - 1;
+  return {
+    maxDrawdown: stats.maxDrawdown,
+    peakDate: dateAt(stats.peakIndex),
+    troughDate: dateAt(stats.troughIndex),
+    recoveryDate: recoveryIndex !== undefined ? dates[recoveryIndex] : undefined,
+    durationPeriods: stats.maxDrawdown > 0 ? endIndex - stats.peakIndex : 0,
+  };
+}
+
+/**
+ * One-period Value at Risk and CVaR (expected shortfall) at a confidence level.
+ * Historical figures use the empirical loss distribution; parametric figures
+ * assume normally distributed returns with the sample mean and standard deviation.
+ */
+export function valueAtRisk(returns: Vector, confidence: number): ValueAtRisk {
+  const sorted = [...returns].sort((a, b) => a - b);
+  const tailCount = Math.max(1, Math.floor(sorted.length * (1 - confidence)));
+  const historicalVaR = -sorted[tailCount - 1];
+  const historicalCVaR = -mean(sorted.slice(0, tailCount));
+
+  const m = mean(returns);
+  const sd = sampleStandardDeviation(returns);
+  const z = normalQuantile(1 - confidence);
+  return {
+    confidence: confidence * 100,
+    historicalVaR: historicalVaR * 100,
+    parametricVaR: -(m + z * sd) * 100,
+    historicalCVaR: historicalCVaR * 100,
+    parametricCVaR: -(m - (sd * normalDensity(z)) / (1 - confidence)) * 100,
+  };
+}
+
+/**
+ * Beta of the portfolio against a benchmark: cov(r_p, r_b) / var(r_b) over the
+ * periods where both returns are known.
+ * @param benchmarkReturns Benchmark returns aligned with `returns`; null where unavailable.
+ * @returns Beta and the number of periods used, or undefined with fewer than two overlapping periods.
+ */
+export function betaAgainst(returns: Vector, benchmarkReturns: (number | null)[]): { beta: number; periods: number } | undefined {
+  const pairs = returns
+    .map((r, t) => [r, benchmarkReturns[t]] as const)
+    .filter((pair): pair is readonly [number, number] => pair[1] !== null);
+  if (pairs.length < 2) return undefined;
+
+  const meanPortfolio = mean(pairs.map(([r]) => r));
+  const meanBenchmark = mean(pairs.map(([, b]) => b));
+  let covariance = 0;
+  let variance = 0;
+  for (const [r, b] of pairs) {
+    covariance += (r - meanPortfolio) * (b - meanBenchmark);
+    variance += (b - meanBenchmark) ** 2;
+  }
+  if (!(variance > 0)) return undefined;
+  return { beta: covariance / variance, periods: pairs.length };
+}
+
+/**
+ * Benchmark returns over the same periods as a return series: element t is the
+ * benchmark's return from dates[t - 1] to dates[t]. The first period has no
+ * starting date and is null, as is any period with a missing benchmark price.
+ * @param dates Date at the end of each portfolio return period.
+ * @param bars The benchmark's historical bars.
+ */
+export function alignBenchmarkReturns(dates: string[], bars: StockData[]): (number | null)[] {
+  const prices = new Map(bars.filter(bar => bar.adjClose > 0).map(bar => [bar.date, bar.adjClose]));
+  return dates.map((date, t) => {
+    if (t === 0) return null;
+    const start = prices.get(dates[t - 1]);
+    const end = prices.get(date);
+    return start !== undefined && end !== undefined ? end / start - 1 : null;
+  });
+}
+
+/**
+ * Compound annual growth rate of a return series.
+ */
+export function annualizedGrowthRate(returns: Vector, periodsPerYear: number): number {
+  const growth = returns.reduce((acc, r) => acc * (1 + r), 1);
+  return Math.pow(growth, periodsPerYear / returns.length) - 1;
+}
+
+/**
+ * Calmar ratio: compound annual growth rate over the maximum drawdown.
+ * @returns The ratio, or undefined if the series never drew down.
+ */
+export function calmarRatio(returns: Vector, maxDrawdown: number, periodsPerYear: number): number | undefined {
+  if (!(maxDrawdown > 0)) return undefined;
+  return annualizedGrowthRate(returns, periodsPerYear) / maxDrawdown;
+}
+
+// Fetched benchmark series: a ticker's bars, or the combined value of a benchmark portfolio
+export interface BenchmarkSeries {
+  name: string;
+  bars: StockData[];
+}
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Computes the historical risk metrics reported with the optimized portfolio.
+ * @param returns The portfolio's periodic returns.
+ * @param dates Date at the end of each period.
+ * @param riskFreeRates Per-period risk-free rates (decimal) aligned with `returns`.
+ * @param periodsPerYear Annualization factor of the series.
+ * @param benchmark Benchmark series for beta, if one was requested and fetched.
+ * @param confidenceLevels VaR/CVaR confidence levels (decimal). Defaults to 95% and 99%.
+ */
+export function computeHistoricalRiskMetrics(
+  returns: Vector,
+  dates: string[],
+  riskFreeRates: Vector,
+  periodsPerYear: number,
+  benchmark?: BenchmarkSeries,
+  confidenceLevels: number[] = VAR_CONFIDENCE_LEVELS
+): Pick<PortfolioMetrics, 'sortinoRatio' | 'calmarRatio' | 'maxDrawdown' | 'valueAtRisk' | 'beta' | 'benchmark'> {
+  const drawdown = maximumDrawdown(returns, dates);
+  const sortino = sortinoRatio(returns, riskFreeRates, periodsPerYear);
+  const calmar = calmarRatio(returns, drawdown.maxDrawdown, periodsPerYear);
+  const beta = benchmark ? betaAgainst(returns, alignBenchmarkReturns(dates, benchmark.bars)) : undefined;
+
+  return {
+    sortinoRatio: sortino !== undefined ? round(sortino) : undefined,
+    calmarRatio: calmar !== undefined ? round(calmar) : undefined,
+    maxDrawdown: {
+      depth: round(drawdown.maxDrawdown * 100),
+      durationPeriods: drawdown.durationPeriods,
+      peakDate: drawdown.peakDate,
+      troughDate: drawdown.troughDate,
+      recoveryDate: drawdown.recoveryDate,
+    },
+    valueAtRisk: confidenceLevels.map(confidence => {
+      const { historicalVaR, parametricVaR, historicalCVaR, parametricCVaR } = valueAtRisk(returns, confidence);
+      return {
+        confidence: round(confidence * 100),
+        historicalVaR: round(historicalVaR),
+        parametricVaR: round(parametricVaR),
+        historicalCVaR: round(historicalCVaR),
+        parametricCVaR: round(parametricCVaR),
+      };
+    }),
+    beta: beta ? round(beta.beta) : undefined,
+    benchmark: beta ? benchmark?.name : undefined,
+  };
+}
@@ -0,0 +1,75 @@
+// src/lib/screening.ts
+
+/**
+ * @fileOverview Screens the ticker universe against the user's filter criteria
+ * (minimum market cap and minimum average daily volume) before optimization.
+ */
+
+import type { StockData, FilterCriteria, ExcludedTicker } from '@/types/portfolio';
+import { periodsPerYear } from '@/lib/portfolio-math';
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+export interface ScreeningResult {
+  passed: string[];             // Tickers that satisfy every active filter
+  excluded: ExcludedTicker[];   // Tickers removed, with the reason
+  unverified: string[];         // Tickers kept because their market cap is unknown
+}
+
+/**
+ * Average daily trading volume over the fetched bars.
+ * Weekly and monthly bars hold the volume of several sessions, so their
+ * average is scaled down to a per-day figure.
+ * @param bars Historical bars for one ticker.
+ * @param interval The data interval the bars were fetched with.
+ */
+export function averageDailyVolume(bars: StockData[], interval: string): number {
+  const volumes = bars.map(bar => bar.volume).filter(volume => Number.isFinite(volume));
+  if (volumes.length === 0) return 0;
+  const averagePerBar = volumes.reduce((acc, volume) => acc + volume, 0) / volumes.length;
+  return averagePerBar * periodsPerYear(interval) / TRADING_DAYS_PER_YEAR;
+}
+
+/**
+ * Applies the market cap and volume filters.
+ * @param stockData Historical bars keyed by ticker.
+ * @param marketCaps Market caps keyed by ticker (null when unavailable).
+ * @param filters The active filter criteria.
+ */
+export function screenTickers(
+  stockData: Record<string, StockData[]>,
+  marketCaps: Record<string, number | null>,
+  filters: FilterCriteria
+): ScreeningResult {
+  const result: ScreeningResult = { passed: [], excluded: [], unverified: [] };
+
+  for (const [ticker, bars] of Object.entries(stockData)) {
+    if (filters.volumeMin !== null) {
+      const volume = averageDailyVolume(bars, filters.interval);
+      if (volume < filters.volumeMin) {
+        result.excluded.push({
+          ticker,
+          reason: `Average daily volume ${Math.round(volume).toLocaleString()} is below the minimum of ${filters.volumeMin.toLocaleString()}.`,
+        });
+        continue;
+      }
+    }
+
+    if (filters.marketCapMin !== null) {
+      const marketCap = marketCaps[ticker] ?? null;
+      if (marketCap === null) {
+        result.unverified.push(ticker);
+      } else if (marketCap < filters.marketCapMin) {
+        result.excluded.push({
+          ticker,
+          reason: `Market cap $${marketCap.toLocaleString()} is below the minimum of $${filters.marketCapMin.toLocaleString()}.`,
+        });
+        continue;
+      }
+    }
+
+    result.passed.push(ticker);
+  }
+
+  return result;
+}
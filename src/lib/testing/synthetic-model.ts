@@ -0,0 +1,30 @@
+// src/lib/testing/synthetic-model.ts
+
+/**
+ * @fileOverview Deterministic risk models for the optimizer tests.
+ */
+
+import type { RiskModel } from '@/lib/portfolio-math';
+import { createSeededRandom, standardNormal } from '@/lib/random';
+
+const PERIODS = 120; // Monthly observations behind each model
+
+/**
+ * Estimates an annualized risk model from seeded monthly returns that share a
+ * market factor, so the assets are correlated and their mean returns differ.
+ */
+export function syntheticRiskModel(assets: string[], seed = 11): RiskModel {
+  const random = createSeededRandom(seed);
+  const returns = Array.from({ length: PERIODS }, () => {
+    const market = standardNormal(random) * 0.03;
+    return assets.map((_, i) => 0.004 + 0.0006 * i - 0.002 * (i % 3) + market * (0.5 + i / assets.length) + standardNormal(random) * 0.04);
+  });
+  const means = assets.map((_, i) => returns.reduce((acc, row) => acc + row[i], 0) / PERIODS);
+  return {
+    assets,
+    expectedReturns: means.map(m => m * 12),
+    covariance: assets.map((_, i) => assets.map((_, j) =>
+      (returns.reduce((acc, row) => acc + (row[i] - means[i]) * (row[j] - means[j]), 0) / (PERIODS - 1)) * 12
+    )),
+  };
+}
@@ -0,0 +1,181 @@
+// src/lib/ticker-parser.ts
+
+/**
+ * @fileOverview Parses uploaded CSV/TXT watchlists into ticker rows.
+ * Mirrors `get_unique_tickers_from_csv` in scripts/process_tickers.py: finds the
+ * ticker column, strips whitespace, drops empty values and de-duplicates while
+ * preserving order. Additionally normalizes case and reports malformed rows.
+ */
+
+import type { TickerData, MalformedTickerRow } from '@/types/portfolio';
+
+// Header names recognized as the ticker column (compared case-insensitively)
+export const TICKER_COLUMN_NAMES = ['ticker', 'tickers', 'symbol', 'symbols', 'ticker symbol', 'stock', 'code'];
+
+// Letters/digits plus the punctuation used by share classes, indices and FX pairs (BRK.A, BRK-B, ^GSPC, EURUSD=X)
+const TICKER_PATTERN = /^[A-Z0-9^][A-Z0-9.\-=^]{0,11}$/;
+
+export interface ParsedTickerFile {
+  tickers: TickerData[];
+  malformedRows: MalformedTickerRow[];
+}
+
+/**
+ * Normalizes a raw ticker value: trims whitespace and quotes, drops a leading `$`, upper-cases.
+ */
+export function normalizeTicker(raw: string): string {
+  return raw.trim().replace(/^["']|["']$/g, '').trim().replace(/^\$/, '').toUpperCase();
+}
+
+export function isValidTicker(ticker: string): boolean {
+  return TICKER_PATTERN.test(ticker) && /[A-Z]/.test(ticker);
+}
+
+/**
+ * Splits one CSV line into fields, honouring double-quoted fields.
+ */
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields.map(field => field.trim());
+}
+
+/**
+ * Picks the most likely delimiter from the first line (comma, semicolon or tab).
+ */
+function detectDelimiter(line: string): string {
+  const candidates = [',', ';', '\t'];
+  const counts = candidates.map(candidate => line.split(candidate).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? candidates[best] : ',';
+}
+
+/**
+ * Finds the ticker column. Prefers a recognized header name; otherwise picks the
+ * column whose values most often look like tickers.
+ * @returns The column index and whether the first row is a header.
+ */
+function detectTickerColumn(rows: string[][]): { column: number; hasHeader: boolean } {
+  const header = rows[0].map(cell => cell.replace(/^["']|["']$/g, '').trim().toLowerCase());
+  const namedColumn = header.findIndex(name => TICKER_COLUMN_NAMES.includes(name));
+  if (namedColumn >= 0) {
+    return { column: namedColumn, hasHeader: true };
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+  const sample = rows.slice(1, 101);
+  let bestColumn = 0;
+  let bestScore = -1;
+  for (let col = 0; col < width; col++) {
+    const score = sample.filter(row => row[col] !== undefined && isValidTicker(normalizeTicker(row[col]))).length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestColumn = col;
+    }
+  }
+  // Treat the first row as a header when its value in the chosen column does not look like a ticker,
+  // or when it is mixed-case ("Company") while the values below it are upper-case symbols
+  const firstValue = (rows[0][bestColumn] ?? '').trim();
+  const hasLowerCase = (value: string) => value !== value.toUpperCase();
+  const restUpperCase = sample.filter(row => row[bestColumn] && !hasLowerCase(row[bestColumn])).length > sample.length / 2;
+  const hasHeader = rows.length > 1 && (!isValidTicker(normalizeTicker(firstValue)) || (hasLowerCase(firstValue) && restUpperCase));
+  return { column: bestColumn, hasHeader };
+}
+
+/**
+ * Parses CSV content. Other columns of each row are kept on the resulting TickerData.
+ */
+function parseCsv(fileName: string, content: string): ParsedTickerFile {
+  const lines = content.split(/\r?\n/).map((line, index) => ({ line, number: index + 1 })).filter(({ line }) => line.trim() !== '');
+  if (lines.length === 0) {
+    return { tickers: [], malformedRows: [] };
+  }
+
+  const delimiter = detectDelimiter(lines[0].line);
+  const rows = lines.map(({ line }) => splitCsvLine(line, delimiter));
+  const { column, hasHeader } = detectTickerColumn(rows);
+  const headerNames = hasHeader ? rows[0] : rows[0].map((_, i) => `column${i + 1}`);
+
+  const tickers: TickerData[] = [];
+  const malformedRows: MalformedTickerRow[] = [];
+  for (let r = hasHeader ? 1 : 0; r < rows.length; r++) {
+    const row = rows[r];
+    const raw = row[column] ?? '';
+    const ticker = normalizeTicker(raw);
+    if (ticker === '') {
+      malformedRows.push({ fileName, line: lines[r].number, content: lines[r].line, reason: 'Missing ticker value.' });
+      continue;
+    }
+    if (!isValidTicker(ticker)) {
+      malformedRows.push({ fileName, line: lines[r].number, content: lines[r].line, reason: `"${raw}" is not a valid ticker symbol.` });
+      continue;
+    }
+    const extraFields: { [key: string]: string } = {};
+    row.forEach((value, i) => {
+      if (i !== column && headerNames[i]) extraFields[headerNames[i]] = value;
+    });
+    tickers.push({ ...extraFields, ticker });
+  }
+  return { tickers, malformedRows };
+}
+
+/**
+ * Parses TXT content: tickers separated by newlines, commas, semicolons or whitespace.
+ * Lines starting with `#` are treated as comments.
+ */
+function parseTxt(fileName: string, content: string): ParsedTickerFile {
+  const tickers: TickerData[] = [];
+  const malformedRows: MalformedTickerRow[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().startsWith('#')) return;
+    for (const token of line.split(/[\s,;]+/).filter(Boolean)) {
+      const ticker = normalizeTicker(token);
+      if (isValidTicker(ticker)) {
+        tickers.push({ ticker });
+      } else {
+        malformedRows.push({ fileName, line: index + 1, content: line, reason: `"${token}" is not a valid ticker symbol.` });
+      }
+    }
+  });
+  return { tickers, malformedRows };
+}
+
+/**
+ * Parses the contents of an uploaded ticker file.
+ * @param fileName The original file name; its extension selects the CSV or TXT parser.
+ * @param content The file's text content.
+ * @returns Parsed ticker rows (not yet de-duplicated) and any malformed rows.
+ */
+export function parseTickerFile(fileName: string, content: string): ParsedTickerFile {
+  return fileName.toLowerCase().endsWith('.csv') ? parseCsv(fileName, content) : parseTxt(fileName, content);
+}
+
+/**
+ * Removes duplicate tickers, keeping the first occurrence and preserving order.
+ */
+export function dedupeTickers(rows: TickerData[]): TickerData[] {
+  const seen = new Set<string>();
+  return rows.filter(row => {
+    if (seen.has(row.ticker)) return false;
+    seen.add(row.ticker);
+    return true;
+  });
+}
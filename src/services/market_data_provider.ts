@@ -0,0 +1,83 @@
+// src/services/market_data_provider.ts
+
+/**
+ * @fileOverview Pluggable market data providers.
+ * Every data vendor implements `MarketDataProvider` and returns the shared
+ * `StockData` type, so the optimizer never depends on a specific vendor.
+ * The active provider is chosen with the MARKET_DATA_PROVIDER environment variable:
+ *   - "alphavantage" (default): Alpha Vantage REST API, needs ALPHAVANTAGE_API_KEY
+ *   - "yahoo":  Yahoo Finance chart API
+ *   - "csv":    Local CSV files in MARKET_DATA_CSV_DIR (default ./data/prices)
+ *   - "mock":   Deterministic generated data, for demos and offline development
+ */
+
+import type { StockData } from '@/types/portfolio';
+import type { NativeInterval, OutputSize } from '@/lib/intervals';
+import { AlphaVantageProvider } from '@/services/providers/alpha_vantage';
+import { YahooFinanceProvider } from '@/services/providers/yahoo';
+import { LocalCsvProvider } from '@/services/providers/local_csv';
+import { MockProvider } from '@/services/providers/mock';
+
+export type MarketDataProviderName = 'alphavantage' | 'yahoo' | 'csv' | 'mock';
+
+export interface MarketDataProvider {
+  readonly name: MarketDataProviderName;
+
+  // Whether fetched series are stored in the on-disk price cache (false for local or generated data)
+  readonly cacheable: boolean;
+
+  /**
+   * Fetches chronologically sorted bars for a ticker at a native interval.
+   * User-facing intervals are derived from these series (see `deriveIntervalSeries`).
+   * @param ticker The stock ticker symbol (e.g., "AAPL").
+   * @param source The native bar size to fetch.
+   * @param outputSize 'compact' for the last 100 bars, 'full' for the full history.
+   * @returns The bars, or an empty array if the provider has no data for the ticker.
+   * @throws An error if the provider cannot be reached or rejects the request.
+   */
+  getSeries(ticker: string, source: NativeInterval, outputSize: OutputSize): Promise<StockData[]>;
+
+  /**
+   * Fetches the current market capitalization in dollars.
+   * @returns The market cap, or null if the provider cannot supply it.
+   */
+  getMarketCap(ticker: string): Promise<number | null>;
+}
+
+const DEFAULT_PROVIDER: MarketDataProviderName = 'alphavantage';
+
+let activeProvider: MarketDataProvider | null = null;
+
+/**
+ * Creates a provider by name.
+ */
+export function createMarketDataProvider(name: MarketDataProviderName): MarketDataProvider {
+  switch (name) {
+    case 'alphavantage':
+      return new AlphaVantageProvider(process.env.ALPHAVANTAGE_API_KEY);
+    case 'yahoo':
+      return new YahooFinanceProvider();
+    case 'csv':
+      return new LocalCsvProvider(process.env.MARKET_DATA_CSV_DIR);
+    case 'mock':
+      return new MockProvider();
+  }
+}
+
+/**
+ * Returns the provider configured through MARKET_DATA_PROVIDER, creating it on first use.
+ * Unknown names fall back to the default provider with a warning.
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!activeProvider) {
+    const configured = (process.env.MARKET_DATA_PROVIDER ?? DEFAULT_PROVIDER).trim().toLowerCase();
+    const known: MarketDataProviderName[] = ['alphavantage', 'yahoo', 'csv', 'mock'];
+    const name = known.includes(configured as MarketDataProviderName) ? (configured as MarketDataProviderName) : DEFAULT_PROVIDER;
+    if (name !== configured) {
+      console.warn(`Unknown MARKET_DATA_PROVIDER "${configured}". Using "${DEFAULT_PROVIDER}".`);
+    }
+    activeProvider = createMarketDataProvider(name);
+    console.log(`Using market data provider: ${name}`);
+  }
+  return activeProvider;
+}
@@ -0,0 +1,129 @@
+// src/services/price_cache.ts
+
+/**
+ * @fileOverview Persistent on-disk cache for provider price series.
+ * Each entry holds one native series, keyed by provider, ticker, native interval
+ * and output size (the date range: the last 100 bars or the full history), and is
+ * stored as a JSON file in PRICE_CACHE_DIR (default ./.cache/prices). Entries older
+ * than PRICE_CACHE_TTL_HOURS (default 12) are stale and get refreshed incrementally.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StockData } from '@/types/portfolio';
+import type { NativeInterval, OutputSize } from '@/lib/intervals';
+
+const DEFAULT_DIRECTORY = './.cache/prices';
+const DEFAULT_TTL_HOURS = 12;
+
+// Adjusted closes on overlapping dates may differ by this much before a refetch is needed
+const ADJUSTMENT_TOLERANCE = 1e-4;
+
+export interface PriceCacheKey {
+  provider: string;
+  ticker: string;
+  source: NativeInterval;
+  outputSize: OutputSize;
+}
+
+export interface PriceCacheEntry extends PriceCacheKey {
+  startDate: string;  // First bar date
+  endDate: string;    // Last bar date
+  fetchedAt: string;  // ISO timestamp of the last live fetch
+  bars: StockData[];
+}
+
+interface PriceCacheOptions {
+  directory?: string;
+  ttlHours?: number;
+}
+
+class PriceCache {
+  private directory: string;
+  private ttlMs: number;
+
+  constructor(options: PriceCacheOptions) {
+    this.directory = path.resolve(options.directory || DEFAULT_DIRECTORY);
+    const ttlHours = options.ttlHours !== undefined && Number.isFinite(options.ttlHours) ? options.ttlHours : DEFAULT_TTL_HOURS;
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  private filePath(key: PriceCacheKey): string {
+    const name = [key.provider, key.ticker.toUpperCase(), key.source, key.outputSize].map(encodeURIComponent).join('_');
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  /**
+   * Reads an entry, or returns null if it is missing or unreadable.
+   */
+  async read(key: PriceCacheKey): Promise<PriceCacheEntry | null> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.filePath(key), 'utf8')) as PriceCacheEntry;
+      return Array.isArray(entry.bars) && entry.bars.length > 0 ? entry : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Ignoring unreadable price cache entry for ${key.ticker}:`, error instanceof Error ? error.message : error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Stores freshly fetched bars. Write failures are logged and otherwise ignored,
+   * since the cache is only an optimization.
+   */
+  async write(key: PriceCacheKey, bars: StockData[]): Promise<PriceCacheEntry> {
+    const entry: PriceCacheEntry = {
+      ...key,
+      startDate: bars[0]?.date ?? '',
+      endDate: bars[bars.length - 1]?.date ?? '',
+      fetchedAt: new Date().toISOString(),
+      bars,
+    };
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.filePath(key), JSON.stringify(entry));
+    } catch (error) {
+      console.warn(`Could not write price cache entry for ${key.ticker}:`, error instanceof Error ? error.message : error);
+    }
+    return entry;
+  }
+
+  /**
+   * Checks whether an entry is younger than the TTL.
+   */
+  isFresh(entry: PriceCacheEntry, now: number = Date.now()): boolean {
+    return now - new Date(entry.fetchedAt).getTime() < this.ttlMs;
+  }
+}
+
+/**
+ * Appends newly fetched bars to a cached series.
+ * Bars from the first new date onwards replace the cached ones (the trailing
+ * period of weekly/monthly series may have been incomplete when cached).
+ * @returns The merged series, or null if the new bars do not overlap the cached
+ *          series or the overlapping adjusted closes changed (dividend or split),
+ *          in which case the full series must be refetched.
+ */
+export function mergeBars(cached: StockData[], latest: StockData[]): StockData[] | null {
+  if (latest.length === 0) return cached;
+  const firstNewDate = latest[0].date;
+  const overlap = cached.filter(bar => bar.date >= firstNewDate);
+  if (overlap.length === 0) return null;
+
+  const latestByDate = new Map(latest.map(bar => [bar.date, bar]));
+  // The last cached bar may be a partial period, so compare the bars before it
+  for (const bar of overlap.slice(0, -1)) {
+    const current = latestByDate.get(bar.date);
+    if (!current || Math.abs(current.adjClose - bar.adjClose) > ADJUSTMENT_TOLERANCE * Math.abs(bar.adjClose)) {
+      return null;
+    }
+  }
+  return [...cached.filter(bar => bar.date < firstNewDate), ...latest];
+}
+
+// Shared cache instance configured from the environment
+export const priceCache = new PriceCache({
+  directory: process.env.PRICE_CACHE_DIR,
+  ttlHours: process.env.PRICE_CACHE_TTL_HOURS !== undefined ? parseFloat(process.env.PRICE_CACHE_TTL_HOURS) : undefined,
+});
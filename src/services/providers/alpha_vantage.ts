@@ -0,0 +1,99 @@
+// src/services/providers/alpha_vantage.ts
+
+/**
+ * @fileOverview Alpha Vantage market data provider.
+ * Uses the adjusted daily/weekly/monthly time series endpoints and the
+ * company overview endpoint for market capitalization.
+ */
+
+import type { StockData } from '@/types/portfolio';
+import type { MarketDataProvider } from '@/services/market_data_provider';
+import type { NativeInterval, OutputSize } from '@/lib/intervals';
+
+// Map native intervals to Alpha Vantage API function names
+const FUNCTION_MAP: { [key in NativeInterval]: string } = {
+  'daily': 'TIME_SERIES_DAILY_ADJUSTED',
+  'weekly': 'TIME_SERIES_WEEKLY_ADJUSTED',
+  'monthly': 'TIME_SERIES_MONTHLY_ADJUSTED',
+};
+
+// Raw JSON body of an Alpha Vantage response: endpoint-specific fields plus the error and rate-limit notes
+interface AlphaVantageResponse {
+  "Error Message"?: string;
+  "Note"?: string;
+  [field: string]: unknown;
+}
+
+// One bar of an adjusted time series, keyed by date in the response
+type AlphaVantageBar = Record<string, string>;
+
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = 'alphavantage' as const;
+  readonly cacheable = true;
+
+  constructor(private readonly apiKey: string | undefined) {}
+
+  /**
+   * Performs an Alpha Vantage request and checks for API-level errors.
+   * @throws An error on missing API key, HTTP errors, API errors or rate-limit notes.
+   */
+  private async query(params: string, ticker: string): Promise<AlphaVantageResponse> {
+    if (!this.apiKey) {
+      throw new Error("Alpha Vantage API Key is missing. Set ALPHAVANTAGE_API_KEY in .env.local to fetch real data.");
+    }
+
+    const response = await fetch(`https://www.alphavantage.co/query?${params}&apikey=${this.apiKey}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error fetching data for ${ticker}! status: ${response.status} ${response.statusText}`);
+    }
+
+    const data: AlphaVantageResponse = await response.json();
+    if (data["Error Message"]) {
+      throw new Error(`Alpha Vantage API Error for ${ticker}: ${data["Error Message"]}`);
+    }
+    if (data["Note"] && data["Note"].includes("API call frequency")) {
+      throw new Error(`Alpha Vantage Rate Limit hit for ${ticker}: ${data["Note"]}`);
+    }
+    return data;
+  }
+
+  async getSeries(ticker: string, source: NativeInterval, outputSize: OutputSize): Promise<StockData[]> {
+    console.log(`Attempting to fetch real data for ${ticker} (${source}, ${outputSize}) from Alpha Vantage...`);
+
+    // 'compact' returns last 100 points, 'full' returns up to 20 years
+    const data = await this.query(`function=${FUNCTION_MAP[source]}&symbol=${ticker}&outputsize=${outputSize}`, ticker);
+
+    // Determine the correct key for time series data (varies by function)
+    const timeSeriesKey = Object.keys(data).find(key => key.includes("Time Series"));
+    const timeSeries = timeSeriesKey ? data[timeSeriesKey] : undefined;
+    if (!timeSeries || typeof timeSeries !== 'object') {
+      console.warn(`No time series data found in the response for ${ticker} from Alpha Vantage.`);
+      return [];
+    }
+
+    const bars = timeSeries as Record<string, AlphaVantageBar>;
+    return Object.keys(bars).map(date => {
+      const dailyData = bars[date];
+      return {
+        date,
+        open: parseFloat(dailyData["1. open"]),
+        high: parseFloat(dailyData["2. high"]),
+        low: parseFloat(dailyData["3. low"]),
+        close: parseFloat(dailyData["4. close"]),
+        adjClose: parseFloat(dailyData["5. adjusted close"]), // Key for adjusted data
+        volume: parseInt(dailyData["6. volume"], 10), // Ensure base 10
+      };
+    }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()); // Sort chronologically
+  }
+
+  async getMarketCap(ticker: string): Promise<number | null> {
+    try {
+      const data = await this.query(`function=OVERVIEW&symbol=${ticker}`, ticker);
+      const marketCap = typeof data["MarketCapitalization"] === 'string' ? parseFloat(data["MarketCapitalization"]) : NaN;
+      return Number.isFinite(marketCap) && marketCap > 0 ? marketCap : null;
+    } catch (error) {
+      console.warn(`Alpha Vantage could not provide an overview for ${ticker}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+// src/services/providers/local_csv.ts
+
+/**
+ * @fileOverview Local CSV market data provider.
+ * Reads daily bars from `<dir>/<TICKER>.csv` with a header row containing
+ * date, open, high, low, close, adj close and volume columns (case-insensitive;
+ * "adj close" falls back to "close"). Market caps are read from an optional
+ * `<dir>/fundamentals.csv` with ticker and market cap columns.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StockData } from '@/types/portfolio';
+import type { MarketDataProvider } from '@/services/market_data_provider';
+import { toNativeSeries, type NativeInterval, type OutputSize } from '@/lib/intervals';
+import { splitCsvLine } from '@/lib/ticker-parser';
+
+const DEFAULT_DIRECTORY = './data/prices';
+const FUNDAMENTALS_FILE = 'fundamentals.csv';
+
+// Accepted header spellings for each field, compared after lower-casing and removing spaces/underscores
+const COLUMN_ALIASES: { [field in keyof StockData]: string[] } = {
+  date: ['date', 'timestamp'],
+  open: ['open'],
+  high: ['high'],
+  low: ['low'],
+  close: ['close'],
+  adjClose: ['adjclose', 'adjustedclose'],
+  volume: ['volume'],
+};
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[\s_]/g, '');
+}
+
+export class LocalCsvProvider implements MarketDataProvider {
+  readonly name = 'csv' as const;
+  readonly cacheable = false;
+  private readonly directory: string;
+  private marketCaps: Map<string, number> | null = null;
+
+  constructor(directory?: string) {
+    this.directory = path.resolve(directory || DEFAULT_DIRECTORY);
+  }
+
+  private async readLines(fileName: string): Promise<string[] | null> {
+    try {
+      const content = await fs.readFile(path.join(this.directory, fileName), 'utf8');
+      return content.split(/\r?\n/).filter(line => line.trim() !== '');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async getSeries(ticker: string, source: NativeInterval, outputSize: OutputSize): Promise<StockData[]> {
+    const fileName = `${ticker.toUpperCase()}.csv`;
+    console.log(`Reading data for ${ticker} (${source}, ${outputSize}) from ${path.join(this.directory, fileName)}...`);
+
+    const lines = await this.readLines(fileName);
+    if (!lines || lines.length < 2) {
+      console.warn(`No local price file found for ${ticker} in ${this.directory}.`);
+      return [];
+    }
+
+    const header = splitCsvLine(lines[0], ',').map(normalizeHeader);
+    const columnOf = (field: keyof StockData) => header.findIndex(name => COLUMN_ALIASES[field].includes(name));
+    const columns = {
+      date: columnOf('date'),
+      open: columnOf('open'),
+      high: columnOf('high'),
+      low: columnOf('low'),
+      close: columnOf('close'),
+      adjClose: columnOf('adjClose'),
+      volume: columnOf('volume'),
+    };
+    if (columns.date < 0 || columns.close < 0) {
+      throw new Error(`Local price file ${fileName} must have at least "date" and "close" columns.`);
+    }
+
+    // Rows with an unreadable date are skipped rather than failing the whole file
+    const invalidDateRows: number[] = [];
+    const dailyBars: StockData[] = lines.slice(1).flatMap((line, index) => {
+      const cells = splitCsvLine(line, ',');
+      const date = new Date(cells[columns.date]);
+      if (Number.isNaN(date.getTime())) {
+        invalidDateRows.push(index + 2); // 1-based row number, counting the header
+        return [];
+      }
+      const numberAt = (column: number, fallback: number) => (column >= 0 && cells[column] !== '' ? parseFloat(cells[column]) : fallback);
+      const close = numberAt(columns.close, NaN);
+      return [{
+        date: date.toISOString().slice(0, 10),
+        open: numberAt(columns.open, close),
+        high: numberAt(columns.high, close),
+        low: numberAt(columns.low, close),
+        close,
+        adjClose: numberAt(columns.adjClose, close),
+        volume: numberAt(columns.volume, 0),
+      }];
+    })
+      .filter(bar => Number.isFinite(bar.close))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    if (invalidDateRows.length > 0) {
+      console.warn(`Skipped ${invalidDateRows.length} row(s) of ${fileName} with an unreadable date (first at row ${invalidDateRows[0]}).`);
+    }
+
+    return toNativeSeries(dailyBars, source, outputSize);
+  }
+
+  async getMarketCap(ticker: string): Promise<number | null> {
+    if (!this.marketCaps) {
+      this.marketCaps = new Map();
+      const lines = await this.readLines(FUNDAMENTALS_FILE);
+      if (lines && lines.length > 1) {
+        const header = splitCsvLine(lines[0], ',').map(normalizeHeader);
+        const tickerColumn = header.findIndex(name => name === 'ticker' || name === 'symbol');
+        const capColumn = header.findIndex(name => name === 'marketcap' || name === 'marketcapitalization');
+        if (tickerColumn >= 0 && capColumn >= 0) {
+          for (const line of lines.slice(1)) {
+            const cells = splitCsvLine(line, ',');
+            const marketCap = parseFloat(cells[capColumn]);
+            if (Number.isFinite(marketCap)) this.marketCaps.set(cells[tickerColumn].toUpperCase(), marketCap);
+          }
+        }
+      }
+    }
+    return this.marketCaps.get(ticker.toUpperCase()) ?? null;
+  }
+}
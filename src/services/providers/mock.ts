@@ -0,0 +1,70 @@
+// src/services/providers/mock.ts
+
+/**
+ * @fileOverview Mock market data provider.
+ * Generates deterministic prices per ticker (geometric Brownian motion seeded by
+ * the ticker symbol) so demos and offline development give repeatable results.
+ * Also used as the fallback when the configured provider fails.
+ */
+
+import type { StockData } from '@/types/portfolio';
+import type { MarketDataProvider } from '@/services/market_data_provider';
+import { toNativeSeries, type NativeInterval, type OutputSize } from '@/lib/intervals';
+import { createSeededRandom, hashString, standardNormal } from '@/lib/random';
+
+const MOCK_FETCH_DELAY_MS = 50; // Simulate slight delay for mock data
+const MOCK_END_DATE = Date.UTC(2024, 11, 31);
+const MOCK_TRADING_DAYS = 252 * 10;
+
+export class MockProvider implements MarketDataProvider {
+  readonly name = 'mock' as const;
+  readonly cacheable = false;
+
+  /**
+   * Generates ten years of daily bars (business days ending 2024-12-31) for a ticker.
+   * Annual drift (2-14%) and volatility (15-45%) are derived from the ticker hash.
+   */
+  private generateDailyBars(ticker: string): StockData[] {
+    const random = createSeededRandom(hashString(ticker));
+    const drift = 0.02 + random() * 0.12;
+    const volatility = 0.15 + random() * 0.30;
+    const dt = 1 / 252;
+
+    const dates: string[] = [];
+    for (let time = MOCK_END_DATE; dates.length < MOCK_TRADING_DAYS; time -= 24 * 60 * 60 * 1000) {
+      const day = new Date(time).getUTCDay();
+      if (day !== 0 && day !== 6) dates.push(new Date(time).toISOString().slice(0, 10));
+    }
+    dates.reverse();
+
+    let price = 20 + random() * 280;
+    const baseVolume = 500000 + random() * 9500000;
+    return dates.map(date => {
+      const open = price;
+      price = open * Math.exp((drift - volatility * volatility / 2) * dt + volatility * Math.sqrt(dt) * standardNormal(random));
+      const range = Math.abs(standardNormal(random)) * volatility * Math.sqrt(dt) / 2;
+      return {
+        date,
+        open: +open.toFixed(2),
+        high: +(Math.max(open, price) * (1 + range)).toFixed(2),
+        low: +(Math.min(open, price) * (1 - range)).toFixed(2),
+        close: +price.toFixed(2),
+        adjClose: +price.toFixed(2),
+        volume: Math.round(baseVolume * (0.5 + random())),
+      };
+    });
+  }
+
+  async getSeries(ticker: string, source: NativeInterval, outputSize: OutputSize): Promise<StockData[]> {
+    console.warn(`WARN: Using mock data for ${ticker} (${source}, ${outputSize}).`);
+    await new Promise(resolve => setTimeout(resolve, MOCK_FETCH_DELAY_MS)); // Simulate delay
+    const dailyBars = this.generateDailyBars(ticker.toUpperCase());
+    return toNativeSeries(dailyBars, source, outputSize);
+  }
+
+  async getMarketCap(ticker: string): Promise<number | null> {
+    // Between $1B and $1T, spread log-uniformly
+    const random = createSeededRandom(hashString(`${ticker.toUpperCase()}:marketcap`));
+    return Math.round(Math.pow(10, 9 + random() * 3));
+  }
+}
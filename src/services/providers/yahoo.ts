@@ -0,0 +1,114 @@
+// src/services/providers/yahoo.ts
+
+/**
+ * @fileOverview Yahoo Finance market data provider.
+ * Reads the public chart API (daily, weekly or monthly bars with adjusted closes)
+ * and the quote API for market capitalization. No API key is required.
+ */
+
+import type { StockData } from '@/types/portfolio';
+import type { MarketDataProvider } from '@/services/market_data_provider';
+import { COMPACT_OUTPUT_SIZE, type NativeInterval, type OutputSize } from '@/lib/intervals';
+
+const BASE_URL = 'https://query1.finance.yahoo.com';
+
+// Yahoo bar sizes and the ranges that cover a 'compact' response for each native interval
+const YAHOO_INTERVALS: { [key in NativeInterval]: { interval: string; compactRange: string } } = {
+  daily: { interval: '1d', compactRange: '6mo' },
+  weekly: { interval: '1wk', compactRange: '2y' },
+  monthly: { interval: '1mo', compactRange: '10y' },
+};
+
+// Price series of a chart response; Yahoo pads missing sessions with nulls
+type YahooSeries = (number | null)[];
+
+// Raw JSON body of a chart response (only the fields read here)
+interface YahooChartResponse {
+  chart?: {
+    result?: {
+      timestamp?: number[];
+      indicators?: {
+        quote?: { open?: YahooSeries; high?: YahooSeries; low?: YahooSeries; close?: YahooSeries; volume?: YahooSeries }[];
+        adjclose?: { adjclose?: YahooSeries }[];
+      };
+    }[] | null;
+    error?: { code?: string; description?: string } | null;
+  };
+}
+
+// Raw JSON body of a quote response (only the fields read here)
+interface YahooQuoteResponse {
+  quoteResponse?: {
+    result?: { marketCap?: unknown }[];
+  };
+}
+
+export class YahooFinanceProvider implements MarketDataProvider {
+  readonly name = 'yahoo' as const;
+  readonly cacheable = true;
+
+  async getSeries(ticker: string, source: NativeInterval, outputSize: OutputSize): Promise<StockData[]> {
+    console.log(`Attempting to fetch data for ${ticker} (${source}, ${outputSize}) from Yahoo Finance...`);
+
+    const { interval: barSize, compactRange } = YAHOO_INTERVALS[source];
+    const range = outputSize === 'compact' ? compactRange : 'max';
+    const url = `${BASE_URL}/v8/finance/chart/${encodeURIComponent(ticker)}?interval=${barSize}&range=${range}&events=div,split`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP error fetching data for ${ticker} from Yahoo Finance! status: ${response.status} ${response.statusText}`);
+    }
+
+    const data: YahooChartResponse = await response.json();
+    const error = data.chart?.error;
+    if (error) {
+      throw new Error(`Yahoo Finance error for ${ticker}: ${error.description ?? error.code}`);
+    }
+
+    const result = data.chart?.result?.[0];
+    const timestamps = result?.timestamp;
+    const quote = result?.indicators?.quote?.[0];
+    const close = quote?.close;
+    if (!Array.isArray(timestamps) || !quote || !Array.isArray(close)) {
+      console.warn(`No chart data found in the response for ${ticker} from Yahoo Finance.`);
+      return [];
+    }
+    const adjCloseSeries = result?.indicators?.adjclose?.[0]?.adjclose;
+    const adjClose = Array.isArray(adjCloseSeries) ? adjCloseSeries : close;
+
+    const bars: StockData[] = [];
+    timestamps.forEach((timestamp, i) => {
+      const closeAt = close[i];
+      const adjCloseAt = adjClose[i];
+      // Missing sessions are padded with nulls
+      if (typeof closeAt !== 'number' || typeof adjCloseAt !== 'number') return;
+      bars.push({
+        date: new Date(timestamp * 1000).toISOString().slice(0, 10),
+        open: quote.open?.[i] ?? closeAt,
+        high: quote.high?.[i] ?? closeAt,
+        low: quote.low?.[i] ?? closeAt,
+        close: closeAt,
+        adjClose: adjCloseAt,
+        volume: quote.volume?.[i] ?? 0,
+      });
+    });
+
+    return outputSize === 'compact' ? bars.slice(-COMPACT_OUTPUT_SIZE) : bars;
+  }
+
+  async getMarketCap(ticker: string): Promise<number | null> {
+    try {
+      const response = await fetch(`${BASE_URL}/v7/finance/quote?symbols=${encodeURIComponent(ticker)}`);
+      if (!response.ok) {
+        console.warn(`HTTP error fetching quote for ${ticker} from Yahoo Finance! status: ${response.status}`);
+        return null;
+      }
+      const data: YahooQuoteResponse = await response.json();
+      const marketCap = data.quoteResponse?.result?.[0]?.marketCap;
+      return typeof marketCap === 'number' && marketCap > 0 ? marketCap : null;
+    } catch (error) {
+      console.warn(`Yahoo Finance could not provide a quote for ${ticker}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
@@ -1,132 +1,153 @@
 // src/services/stock_data.ts
 'use server'; // Ensure this runs on the server as it accesses process.env
 
-import type { StockData } from '@/types/portfolio';
+import type { StockData, HistoricalDataResult, TickerFetchResult } from '@/types/portfolio';
+import { getIntervalSpec, deriveIntervalSeries } from '@/lib/intervals';
+import { getMarketDataProvider, type MarketDataProvider } from '@/services/market_data_provider';
+import { priceCache, mergeBars, type PriceCacheKey } from '@/services/price_cache';
+import { MockProvider } from '@/services/providers/mock';
 
-// --- Configuration ---
-// Use environment variable for API key. Replace 'ALPHAVANTAGE_API_KEY'
-// if using a different provider.
-const apiKey = process.env.ALPHAVANTAGE_API_KEY;
-const MOCK_FETCH_DELAY_MS = 50; // Simulate slight delay for mock data
+// Used when the configured provider fails, so the app keeps working offline or without an API key
+const fallbackProvider = new MockProvider();
 
 /**
- * Generates mock stock data for a single ticker.
- * Used as a fallback when the API key is missing or fetching fails.
- * @param ticker The stock ticker symbol (for logging purposes).
- * @returns An array of mock StockData objects.
+ * Generates mock bars for a ticker, flagged as synthetic so callers can report them.
  */
-function generateMockData(ticker: string): StockData[] {
-    console.warn(`WARN: Using mock data for ${ticker} as API key is missing or fetch failed.`);
-    // Return a small, consistent set of mock data for demonstration
-    return [
-        { date: '2024-01-01', open: 150, high: 155, low: 148, close: 152, adjClose: 152, volume: 1000000 },
-        { date: '2024-01-02', open: 152, high: 154, low: 151, close: 153, adjClose: 153, volume: 1200000 },
-        { date: '2024-01-03', open: 153, high: 156, low: 152, close: 155, adjClose: 155, volume: 1100000 },
-        // Add more mock data points if needed
-    ];
+async function mockHistoricalData(ticker: string, interval: string, reason: string): Promise<HistoricalDataResult> {
+    const { source, outputSize } = getIntervalSpec(interval);
+    const bars = deriveIntervalSeries(await fallbackProvider.getSeries(ticker, source, outputSize), interval);
+    return { bars, source: 'mock', fetchedAt: new Date().toISOString(), reason };
 }
 
+function cacheKey(provider: MarketDataProvider, ticker: string, interval: string): PriceCacheKey {
+    const { source, outputSize } = getIntervalSpec(interval);
+    return { provider: provider.name, ticker: ticker.toUpperCase(), source, outputSize };
+}
 
 /**
- * Fetches historical stock data for a given ticker and interval using Alpha Vantage API.
- * If the API key (ALPHAVANTAGE_API_KEY) is not set in the environment variables,
- * it logs a warning and returns mock data.
- *
- * @param ticker The stock ticker symbol (e.g., "AAPL").
- * @param interval The data interval string (e.g., 'daily', 'weekly', 'monthly').
- *                 This function currently maps these to Alpha Vantage functions.
- * @returns A promise resolving to an array of StockData objects (real or mock).
- * @throws An error if the API fetch fails and mock data fallback is not applicable.
+ * Fetches a native series from the provider, reusing a stale cache entry when possible:
+ * full histories are refreshed by fetching only the most recent bars and appending them.
  */
-export async function getHistoricalData(ticker: string, interval: string): Promise<StockData[]> {
-    if (!apiKey) {
-        console.warn("API Key (ALPHAVANTAGE_API_KEY) is missing. Set it in .env.local to fetch real data.");
-        await new Promise(resolve => setTimeout(resolve, MOCK_FETCH_DELAY_MS)); // Simulate delay
-        return generateMockData(ticker); // Fallback to mock data
-    }
-
-    console.log(`Attempting to fetch real data for ${ticker} (Interval: ${interval}) from Alpha Vantage...`);
-
-    // Map user-friendly interval names to Alpha Vantage API function names
-    const functionMap: { [key: string]: string } = {
-        'daily': 'TIME_SERIES_DAILY_ADJUSTED',
-        'weekly': 'TIME_SERIES_WEEKLY_ADJUSTED',
-        'monthly': 'TIME_SERIES_MONTHLY_ADJUSTED',
-        // Add mappings for 'quarterly', 'yearly', '1y', '2y', '5y', '10y' if Alpha Vantage supports
-        // equivalent functions or if you need to derive them from daily/weekly/monthly data.
-        // For now, default to daily for unmapped intervals.
-    };
-    const avFunction = functionMap[interval] || 'TIME_SERIES_DAILY_ADJUSTED'; // Default to daily
-
-    // Determine output size based on interval (adjust as needed)
-    // 'compact' returns last 100 points, 'full' returns up to 20 years
-    const outputSize = ['daily', 'weekly', 'monthly'].includes(interval) ? 'compact' : 'full';
-
-    const apiUrl = `https://www.alphavantage.co/query?function=${avFunction}&symbol=${ticker}&outputsize=${outputSize}&apikey=${apiKey}`;
-
-    try {
-        const response = await fetch(apiUrl);
-
-        // Check for network errors
-        if (!response.ok) {
-             console.error(`HTTP error fetching data for ${ticker}! status: ${response.status} ${response.statusText}`);
-             // Fallback to mock data on HTTP errors (like 404 Not Found, 5xx Server Errors)
-             await new Promise(resolve => setTimeout(resolve, MOCK_FETCH_DELAY_MS));
-             return generateMockData(ticker);
+async function fetchSeries(provider: MarketDataProvider, key: PriceCacheKey, stale: StockData[] | null): Promise<StockData[]> {
+    if (stale && key.outputSize === 'full') {
+        const latest = await provider.getSeries(key.ticker, key.source, 'compact');
+        const merged = mergeBars(stale, latest);
+        if (merged) {
+            console.log(`Appended ${latest.length} recent ${key.source} bars to the cached history of ${key.ticker}.`);
+            return merged;
         }
+        console.log(`Cached history of ${key.ticker} is too old or was adjusted since; refetching it in full.`);
+    }
+    return provider.getSeries(key.ticker, key.source, key.outputSize);
+}
 
-        const data = await response.json();
-
-        // Check for Alpha Vantage specific error messages or rate limit info
-        if (data["Error Message"]) {
-            console.error(`Alpha Vantage API Error for ${ticker}:`, data["Error Message"]);
-            // Fallback to mock data on API-level errors
-            await new Promise(resolve => setTimeout(resolve, MOCK_FETCH_DELAY_MS));
-            return generateMockData(ticker);
-        }
-        if (data["Note"] && data["Note"].includes("API call frequency")) {
-             console.warn(`Alpha Vantage Rate Limit potentially hit for ${ticker}:`, data["Note"]);
-             // Fallback to mock data if rate limited
-            await new Promise(resolve => setTimeout(resolve, MOCK_FETCH_DELAY_MS));
-            return generateMockData(ticker);
+/**
+ * Returns the tickers' series from the on-disk price cache without contacting the provider.
+ * Lets callers skip the rate limiter for series that are already cached.
+ *
+ * @param tickers The stock ticker symbols (e.g., ["AAPL", "MSFT"]).
+ * @param interval The data interval string (e.g., 'daily', 'quarterly', '5y').
+ * @returns The cached series keyed by ticker. Tickers that are missing from the cache
+ *          or older than the cache TTL are left out.
+ */
+export async function getCachedHistoricalData(tickers: string[], interval: string): Promise<Record<string, HistoricalDataResult>> {
+    const provider = getMarketDataProvider();
+    const cached: Record<string, HistoricalDataResult> = {};
+    if (!provider.cacheable) return cached;
+
+    await Promise.all(tickers.map(async ticker => {
+        const entry = await priceCache.read(cacheKey(provider, ticker, interval));
+        if (entry && priceCache.isFresh(entry)) {
+            cached[ticker] = { bars: deriveIntervalSeries(entry.bars, interval), source: 'cache', fetchedAt: entry.fetchedAt };
         }
+    }));
+    console.log(`Served ${Object.keys(cached).length} of ${tickers.length} series (Interval: ${interval}) from the price cache.`);
+    return cached;
+}
 
-        // Determine the correct key for time series data (varies by function)
-        const timeSeriesKey = Object.keys(data).find(key => key.includes("Time Series"));
+/**
+ * Fetches historical stock data for a given ticker and interval from the configured
+ * market data provider (see MARKET_DATA_PROVIDER in src/services/market_data_provider.ts).
+ * Fresh series are served from the on-disk price cache; stale ones are updated
+ * incrementally and written back. If the provider throws (missing API key, HTTP or
+ * API errors, rate limits), it logs the error and returns mock data instead, flagged
+ * with source 'mock' and the reason.
+ *
+ * @param ticker The stock ticker symbol (e.g., "AAPL").
+ * @param interval The data interval string (e.g., 'daily', 'weekly', 'monthly', 'quarterly', '5y').
+ *                 Daily, weekly and monthly are native provider intervals.
+ *                 Quarterly and yearly bars are resampled from monthly data, and the
+ *                 lookback intervals (1y, 2y, 5y, 10y) trim full daily history to that window.
+ * @returns A promise resolving to the bars (real or mock) and their provenance. The bars
+ *          are empty if the provider has no data for the ticker.
+ */
+export async function getHistoricalData(ticker: string, interval: string): Promise<HistoricalDataResult> {
+    const provider = getMarketDataProvider();
+    if (provider.name === 'mock') {
+        return mockHistoricalData(ticker, interval, 'MARKET_DATA_PROVIDER is set to "mock".');
+    }
 
-        if (!timeSeriesKey || !data[timeSeriesKey]) {
-             console.warn(`No time series data found in the response for ${ticker} from Alpha Vantage.`);
-             // Return empty array if API returns no data but no explicit error
-             return [];
+    const key = cacheKey(provider, ticker, interval);
+    try {
+        const cached = provider.cacheable ? await priceCache.read(key) : null;
+        if (cached && priceCache.isFresh(cached)) {
+            return { bars: deriveIntervalSeries(cached.bars, interval), source: 'cache', fetchedAt: cached.fetchedAt };
         }
 
-        const timeSeries = data[timeSeriesKey];
-        const formattedData: StockData[] = Object.keys(timeSeries).map(date => {
-            const dailyData = timeSeries[date];
-            return {
-                date,
-                open: parseFloat(dailyData["1. open"]),
-                high: parseFloat(dailyData["2. high"]),
-                low: parseFloat(dailyData["3. low"]),
-                close: parseFloat(dailyData["4. close"]),
-                adjClose: parseFloat(dailyData["5. adjusted close"]), // Key for adjusted data
-                volume: parseInt(dailyData["6. volume"], 10), // Ensure base 10
-            };
-        }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()); // Sort chronologically
+        const series = await fetchSeries(provider, key, cached?.bars ?? null);
+        const fetchedAt = provider.cacheable && series.length > 0
+            ? (await priceCache.write(key, series)).fetchedAt
+            : new Date().toISOString();
+        const bars = deriveIntervalSeries(series, interval);
+        console.log(`Successfully fetched and processed ${bars.length} ${interval} data points for ${ticker} from ${provider.name}`);
+        return { bars, source: 'live', fetchedAt };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error fetching data for ${ticker} from ${provider.name}: ${message}. Falling back to mock data.`);
+        return mockHistoricalData(ticker, interval, message);
+    }
+}
 
-        console.log(`Successfully fetched and processed ${formattedData.length} data points for ${ticker}`);
-        return formattedData;
+/**
+ * Fetches historical data for several tickers in parallel (see `getHistoricalData`).
+ * Batching keeps the requests concurrent, since server actions invoked from the
+ * client are processed one at a time.
+ *
+ * @param tickers The stock ticker symbols to fetch together.
+ * @param interval The data interval string.
+ * @returns One result per ticker, with the error message for tickers that failed.
+ */
+export async function getHistoricalDataBatch(tickers: string[], interval: string): Promise<TickerFetchResult<HistoricalDataResult>[]> {
+    const settled = await Promise.allSettled(tickers.map(ticker => getHistoricalData(ticker, interval)));
+    return settled.map((outcome, i) => outcome.status === 'fulfilled'
+        ? { ticker: tickers[i], value: outcome.value }
+        : { ticker: tickers[i], error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) });
+}
 
+/**
+ * Fetches the current market capitalization for a ticker from the configured provider.
+ *
+ * @param ticker The stock ticker symbol (e.g., "AAPL").
+ * @returns A promise resolving to the market cap in dollars, or null if it is
+ *          unavailable (missing API key, API error, rate limit or unknown ticker).
+ */
+export async function getMarketCap(ticker: string): Promise<number | null> {
+    const provider = getMarketDataProvider();
+    try {
+        return await provider.getMarketCap(ticker);
     } catch (error) {
-        console.error(`Critical error fetching or processing data for ${ticker}:`, error);
-        // Fallback to mock data on unexpected errors (e.g., network issues before response, JSON parsing errors)
-        await new Promise(resolve => setTimeout(resolve, MOCK_FETCH_DELAY_MS));
-        return generateMockData(ticker);
-        // OR: Re-throw if you want the calling function (`optimizePortfolio`) to handle the failure more drastically.
-        // throw error;
+        console.error(`Error fetching market cap for ${ticker} from ${provider.name}:`, error instanceof Error ? error.message : error);
+        return null;
     }
 }
 
-// Potential future functions:
-// export async function getMarketCap(ticker: string): Promise<number | null> { ... }
-// export async function getCurrentVolume(ticker: string): Promise<number | null> { ... }
+/**
+ * Fetches market caps for several tickers in parallel (see `getMarketCap`).
+ *
+ * @param tickers The stock ticker symbols to fetch together.
+ * @returns One result per ticker; the value is null if the market cap is unavailable.
+ */
+export async function getMarketCapBatch(tickers: string[]): Promise<TickerFetchResult<number | null>[]> {
+    const marketCaps = await Promise.all(tickers.map(ticker => getMarketCap(ticker)));
+    return tickers.map((ticker, i) => ({ ticker, value: marketCaps[i] }));
+}
@@ -7,6 +7,22 @@ export interface TickerData {
   [key: string]: any; // Allow other CSV fields if present
 }
 
+// A row of an uploaded ticker file that could not be turned into a ticker
+export interface MalformedTickerRow {
+  fileName: string; // File the row came from
+  line: number;     // 1-based line number within the file
+  content: string;  // The raw line
+  reason: string;   // Why the row was rejected
+}
+
+// Outcome of parsing the uploaded ticker files (`uploadTickers`)
+export interface TickerUploadResult {
+  tickers: TickerData[];             // Unique, normalized tickers in order of appearance
+  processedFileNames: string[];      // Files that were parsed
+  malformedRows: MalformedTickerRow[];
+  message: string;                   // Human-readable summary
+}
+
 // --- Filter Criteria Schemas and Types ---
 
 // Define the allowed interval values explicitly for validation and description
@@ -15,12 +31,12 @@ const allowedIntervals = [
     "daily",
     "weekly",
     "monthly",
-    "quarterly", // Needs mapping in stock_data.ts if supported by API
-    "yearly",    // Needs mapping in stock_data.ts if supported by API
-    "1y",        // Needs interpretation (likely derived from daily/weekly)
-    "2y",        // Needs interpretation
-    "5y",        // Needs interpretation
-    "10y",       // Needs interpretation
+    "quarterly", // Resampled from monthly data (see src/lib/intervals.ts)
+    "yearly",    // Resampled from monthly data
+    "1y",        // Daily data trimmed to the last year
+    "2y",        // Daily data trimmed to the last 2 years
+    "5y",        // Daily data trimmed to the last 5 years
+    "10y",       // Daily data trimmed to the last 10 years
 ] as const;
 
 // Base schema used internally for validation (e.g., in forms, AI flow)
@@ -72,26 +88,224 @@ export type OptimizationMethod =
   | 'Black-Litterman'
   | 'Monte Carlo Simulation'
   | 'Risk Parity'
+  | 'Hierarchical Risk Parity'
+  | 'Minimum CVaR'
   | 'Equal Weighting';
 
+// Every method, in the order offered in the UI and compared in "compare all" mode
+export const OPTIMIZATION_METHODS: OptimizationMethod[] = [
+  'Modern Portfolio Theory',
+  'Black-Litterman',
+  'Monte Carlo Simulation',
+  'Risk Parity',
+  'Hierarchical Risk Parity',
+  'Minimum CVaR',
+  'Equal Weighting',
+];
+
+// Methods that select a point on the mean-variance efficient frontier (see ObjectiveSettings)
+export const MEAN_VARIANCE_METHODS: OptimizationMethod[] = ['Modern Portfolio Theory', 'Black-Litterman'];
+
+// An investor view used by the Black-Litterman model.
+// Absolute views state an asset's expected annual return; relative views state
+// by how much `asset` is expected to outperform `relativeTo`.
+export interface BlackLittermanView {
+  type: 'absolute' | 'relative';
+  asset: string;          // Ticker the view is about (the outperformer for relative views)
+  relativeTo?: string;    // Ticker expected to underperform (relative views only)
+  expectedReturn: number; // Percentage (e.g., 8 for 8% per year, or 2 for 2% outperformance)
+  confidence: number;     // Percentage confidence in the view (0-100)
+}
+
+// Settings for 'Monte Carlo Simulation'
+export interface MonteCarloSettings {
+  simulations: number; // Number of random portfolios to draw
+  seed?: number;       // Random seed; the same seed reproduces the same run
+}
+
+// Point of the efficient frontier the mean-variance methods select
+export type OptimizationObjective = 'max-sharpe' | 'min-variance' | 'target-volatility' | 'target-return';
+
+// Objective of 'Modern Portfolio Theory' and 'Black-Litterman'
+export interface ObjectiveSettings {
+  objective: OptimizationObjective;
+  targetVolatility?: number; // Annualized volatility (percentage), used by 'target-volatility'
+  targetReturn?: number;     // Annualized expected return (percentage), used by 'target-return'
+}
+
+// Settings of the 'Minimum CVaR' method
+export interface CvarSettings {
+  confidence: number;    // Percentage (e.g., 95 minimizes the average loss in the worst 5% of periods)
+  targetReturn?: number; // Minimum annualized expected return (percentage); unset for the minimum-CVaR portfolio
+}
+
+// Per-asset weight limits in percent (e.g., min 5 and max 20; a negative min allows shorting)
+export interface AssetWeightBound {
+  asset: string;
+  min?: number;
+  max?: number;
+}
+
+// Cap on the combined weight of a group of assets: a sector or a custom tag.
+// Groups entered without tickers are filled from the uploaded files' sector/industry/group/tag column.
+export interface GroupConstraint {
+  name: string;     // Sector or tag name (e.g., "Technology")
+  assets: string[]; // Member tickers
+  max: number;      // Percentage cap on the group's total weight
+}
+
+// Constraints enforced by every method except 'Equal Weighting'
+export interface PortfolioConstraints {
+  assetBounds: AssetWeightBound[];
+  groups: GroupConstraint[];
+  maxHoldings?: number;        // Maximum number of assets with a non-zero weight
+  allowShortSelling?: boolean; // Allow negative weights (not used by the risk parity methods)
+  maxGrossExposure?: number;   // Percentage limit on long plus short exposure (e.g., 160 for 130/30)
+}
+
+// One observation of an annualized T-bill yield
+export interface RateObservation {
+  date: string; // 'YYYY-MM-DD'
+  rate: number; // Percentage per year (e.g., 5.25)
+}
+
+// Risk-free rate used for Sharpe ratios: a constant, or a T-bill yield series loaded from a local file
+export type RiskFreeRateSettings =
+  | { source: 'constant'; rate: number } // Percentage per year (e.g., 2 for 2%)
+  | { source: 'series'; fileName: string; observations: RateObservation[] };
+
+// One holding of a user-defined benchmark portfolio
+export interface BenchmarkWeight {
+  asset: string;
+  weight: number; // Percentage, normalized so the holdings sum to 100
+}
+
+// Benchmark the portfolio is compared against: a ticker (e.g. an index ETF) or a weights file
+export type BenchmarkSettings =
+  | { source: 'ticker'; ticker: string }
+  | { source: 'portfolio'; fileName: string; weights: BenchmarkWeight[] };
+
+// When a backtest trades the portfolio back to its target weights
+export type RebalanceFrequency = 'none' | 'monthly' | 'quarterly' | 'threshold';
+
+// Assumptions of the historical backtest of the optimized weights
+export interface BacktestSettings {
+  rebalance: RebalanceFrequency;
+  driftThreshold: number;  // Percentage points any weight may drift from target before a 'threshold' rebalance
+  transactionCost: number; // Cost in basis points of the value traded (e.g., 10 for 0.10%)
+  walkForward: boolean;    // Re-optimize on a trailing window at every rebalance instead of using the full-history weights
+  estimationWindow: number; // Trailing return periods each walk-forward re-optimization is fitted on
+}
+
+// Estimator of the annualized covariance matrix
+export type CovarianceEstimator = 'sample' | 'ledoit-wolf' | 'ewma' | 'constant-correlation';
+
+// Estimator of the annualized expected returns
+export type ReturnEstimator = 'historical' | 'ewma' | 'capm';
+
+// How the risk model is estimated from the aligned return series
+export interface EstimatorSettings {
+  covariance: CovarianceEstimator;
+  expectedReturns: ReturnEstimator;
+  halfLife: number; // Return periods after which an observation's EWMA weight halves
+}
+
+// Estimators behind a result, as recorded in the report
+export interface EstimatorDetails extends EstimatorSettings {
+  shrinkage?: number;   // Ledoit-Wolf shrinkage intensity applied (0 to 1)
+  marketProxy?: string; // Market series the CAPM-implied returns are based on
+}
+
 // Parameters passed to the core optimization function (`optimizePortfolio`)
 export interface OptimizationParams {
   uploadedFileNames: string[]; // List of ticker sources (e.g., filenames)
+  tickers: string[];           // Ticker symbols parsed from the uploaded files
   filters: FilterCriteria;      // User-selected or AI-suggested filters
   method: OptimizationMethod;   // Chosen optimization algorithm
+  views?: BlackLittermanView[]; // Investor views, used by 'Black-Litterman'
+  objective?: ObjectiveSettings; // Frontier point for 'Modern Portfolio Theory' and 'Black-Litterman' (defaults to max Sharpe)
+  monteCarlo?: MonteCarloSettings; // Simulation settings, used by 'Monte Carlo Simulation'
+  cvar?: CvarSettings;          // Confidence level and target return, used by 'Minimum CVaR'
+  constraints?: PortfolioConstraints; // Weight bounds, group caps and holdings limit
+  riskFreeRate?: RiskFreeRateSettings; // Defaults to a constant DEFAULT_RISK_FREE_RATE
+  benchmark?: BenchmarkSettings; // Benchmark for beta and the relative performance comparison
+  backtest?: BacktestSettings;  // Defaults to DEFAULT_BACKTEST_SETTINGS
+  compareAll?: boolean;         // Also run every other method on the same data for a side-by-side comparison
+  estimators?: EstimatorSettings; // Defaults to DEFAULT_ESTIMATOR_SETTINGS (sample covariance, historical means)
+  fetchConcurrency?: number;    // Tickers fetched in parallel (defaults to DEFAULT_FETCH_CONCURRENCY)
 }
 
 // Represents the allocation of a single asset within the final portfolio
 export interface AssetAllocation {
   asset: string;        // Ticker symbol
-  allocation: number;   // Percentage (e.g., 25.5 for 25.5%)
+  allocation: number;   // Percentage (e.g., 25.5 for 25.5%); negative for short positions
+  riskContribution?: number; // Percentage share of total portfolio risk (e.g., 20.0 for 20%)
+  bindingConstraints?: string[]; // Constraints that limit this position (e.g., "Max 20%", "Technology cap 40%")
+}
+
+// One-period Value at Risk and CVaR at a confidence level, as positive loss percentages
+export interface ValueAtRisk {
+  confidence: number;      // Percentage (95, 99 and any level the Minimum CVaR method optimized)
+  historicalVaR: number;
+  parametricVaR: number;   // Assumes normally distributed returns
+  historicalCVaR: number;  // Average loss beyond the historical VaR
+  parametricCVaR: number;
+}
+
+// Largest peak-to-trough decline of the portfolio's historical value
+export interface MaxDrawdown {
+  depth: number;           // Percentage loss from the peak (e.g., 23.5)
+  durationPeriods: number; // Return periods from the peak until recovery (or the end of the data)
+  peakDate: string;
+  troughDate: string;
+  recoveryDate?: string;   // Unset if the portfolio had not recovered by the end of the data
 }
 
 // Key performance indicators calculated for the optimized portfolio
 export interface PortfolioMetrics {
   expectedReturn: number; // Percentage (e.g., 12.3 for 12.3%)
   risk: number;           // Percentage (e.g., standard deviation/volatility, 15.0 for 15.0%)
-  sharpeRatio?: number;   // Optional, as not all models might produce it naturally
+  sharpeRatio?: number;   // Annualized Sharpe ratio of the historical excess return series
+  riskFreeRate?: number;  // Average annual risk-free rate used (percentage, e.g., 2.0)
+  riskFreeRateSource?: string; // e.g., "Constant" or "T-bill series (DTB3.csv)"
+  annualizationFactor?: number; // Return periods per year used to annualize (252, 52, 12, ...)
+  // Historical risk metrics of the portfolio's return series
+  sortinoRatio?: number;
+  calmarRatio?: number;   // Compound annual growth rate over the maximum drawdown
+  maxDrawdown?: MaxDrawdown;
+  valueAtRisk?: ValueAtRisk[]; // One entry per confidence level (95%, 99%, plus the Minimum CVaR level)
+  cvarConfidence?: number; // Confidence level (percentage) the Minimum CVaR method minimized CVaR at
+  beta?: number;          // Against `benchmark`
+  benchmark?: string;     // Benchmark name (ticker, or "Custom (file name)")
+}
+
+// Growth of 100 in the portfolio and the benchmark over their overlapping periods
+export interface RelativePerformancePoint {
+  date: string;
+  portfolio: number;
+  benchmark: number;
+  relative: number; // Portfolio over benchmark, × 100
+}
+
+// Performance of the portfolio relative to its benchmark (annualized figures in percent)
+export interface BenchmarkComparison {
+  benchmark: string;
+  periods: number;          // Overlapping return periods the figures are computed over
+  trackingError: number;    // Annualized standard deviation of the active return
+  informationRatio?: number; // Annualized active return over tracking error
+  alpha: number;            // Jensen's alpha, annualized
+  beta: number;
+  upCapture?: number;       // Portfolio's average return in rising benchmark periods, as a percentage of the benchmark's
+  downCapture?: number;     // Same for falling benchmark periods (below 100 loses less than the benchmark)
+  relativePerformance: RelativePerformancePoint[];
+}
+
+// Long, short, gross and net exposure of a portfolio that may hold short positions
+export interface PortfolioExposure {
+  long: number;   // Percentage held long (e.g., 130)
+  short: number;  // Percentage held short, as a positive number (e.g., 30)
+  gross: number;  // long + short
+  net: number;    // long - short (100 for a fully invested portfolio)
 }
 
 // Represents a single data point for plotting the efficient frontier (Risk vs. Return)
@@ -101,18 +315,129 @@ export interface RiskReturnChartData {
   return: number;   // Return percentage (y-axis)
 }
 
+// Capital market line: from the risk-free rate through the tangency (maximum Sharpe) portfolio
+export interface CapitalMarketLine {
+  riskFreeRate: number;          // Percentage at zero risk
+  tangency: RiskReturnChartData; // Where the line touches the efficient frontier
+  sharpeRatio: number;           // Slope: excess return per unit of risk, under the risk model
+  line: RiskReturnChartData[];   // End points, from zero risk to the frontier's highest risk
+}
+
+// Backtested portfolio value at the end of one return period
+export interface EquityCurvePoint {
+  date: string;
+  value: number;    // Portfolio value after transaction costs
+  drawdown: number; // Percentage below the running peak (0 or negative, e.g., -12.5)
+}
+
+// Calendar-year return of the backtested portfolio
+export interface YearlyReturn {
+  year: number;
+  return: number;    // Percentage
+  partial: boolean;  // The data covers only part of the year
+}
+
+// Target weights chosen by a walk-forward re-optimization
+export interface WeightSnapshot {
+  date: string;      // Close the portfolio was traded to these weights at
+  weights: number[]; // Percentages, in the order of `WalkForwardDetails.assets`
+}
+
+// Out-of-sample details of a walk-forward backtest
+export interface WalkForwardDetails {
+  estimationWindow: number; // Trailing return periods used for each re-optimization
+  assets: string[];
+  targets: WeightSnapshot[]; // One per re-optimization, starting with the initial fit
+}
+
+// Historical performance of the optimized weights under the backtest settings
+export interface BacktestResult {
+  settings: BacktestSettings;
+  initialValue: number;
+  finalValue: number;
+  totalReturn: number;      // Percentage
+  annualizedReturn: number; // Compound annual growth rate (percentage)
+  volatility: number;       // Annualized (percentage)
+  maxDrawdown: number;      // Percentage loss from the peak (positive)
+  rebalances: number;       // Rebalancing trades after the initial purchase
+  turnover: number;         // Value traded at rebalances, as a percentage of portfolio value, summed
+  transactionCosts: number; // Total costs paid, in the units of `initialValue`
+  equityCurve: EquityCurvePoint[];
+  yearlyReturns: YearlyReturn[];
+  walkForward?: WalkForwardDetails; // Set for walk-forward backtests, whose figures are all out-of-sample
+}
+
+// One merge of a hierarchical clustering: two clusters joined at a correlation distance
+export interface ClusterMerge {
+  left: number;     // Cluster ids: 0..n-1 are the clustered assets, n + k the cluster formed by merge k
+  right: number;
+  distance: number; // Correlation distance √((1 - ρ) / 2) at which the clusters were joined
+  size: number;     // Assets in the merged cluster
+}
+
+// Clustering behind a Hierarchical Risk Parity portfolio, for the dendrogram
+export interface HierarchicalClustering {
+  assets: string[];       // Clustered assets; cluster ids index into this list
+  order: number[];        // Quasi-diagonal leaf order (indices into `assets`)
+  merges: ClusterMerge[]; // In the order the clusters were formed
+}
+
+// One method's portfolio in "compare all" mode
+export interface MethodComparisonEntry {
+  method: OptimizationMethod;
+  allocations?: AssetAllocation[];
+  riskModel?: 'Estimated' | 'Black-Litterman posterior'; // Risk model the metrics were evaluated under
+  metrics?: PortfolioMetrics; // Evaluated under the risk model the method optimized against, matching its main result
+  error?: string;             // Why the method produced no portfolio (e.g. infeasible constraints)
+}
+
 // The core result object returned by the `optimizePortfolio` function
 export interface OptimizationResult {
   allocations: AssetAllocation[]; // Calculated asset allocations
   metrics: PortfolioMetrics;        // Calculated performance metrics
   efficientFrontierData?: RiskReturnChartData[]; // Optional data for efficient frontier chart
+  efficientFrontierCurve?: RiskReturnChartData[]; // Optional frontier line, ordered from lowest to highest risk
+  capitalMarketLine?: CapitalMarketLine;          // Set with the analytic frontier (Modern Portfolio Theory and Black-Litterman)
+  monteCarlo?: Required<MonteCarloSettings>;      // Simulation count and seed actually used (Monte Carlo only)
+  exposure?: PortfolioExposure;                   // Set when short selling was allowed
+  backtest?: BacktestResult;                      // Historical backtest of the weights (unset for placeholder results)
+  benchmarkComparison?: BenchmarkComparison;      // Set when a benchmark was requested and overlaps the data
+  methodComparison?: MethodComparisonEntry[];     // Every method on the same data ("compare all" mode only)
+  estimators?: EstimatorDetails;                  // How expected returns and covariance were estimated
+  clustering?: HierarchicalClustering;            // Asset clustering (Hierarchical Risk Parity only)
+  objective?: ObjectiveSettings;                  // Frontier point selected (Modern Portfolio Theory and Black-Litterman only)
+}
+
+// A ticker removed from the universe before optimization
+export interface ExcludedTicker {
+  ticker: string;
+  reason: string; // e.g., "Average daily volume 120,000 is below the minimum of 1,000,000."
+}
+
+// Where a ticker's price series was served from. 'mock' marks generated (synthetic) prices.
+export type PriceDataSource = 'live' | 'cache' | 'mock';
+
+// Per-ticker data quality: provenance and coverage of the price series used
+export interface TickerDataSource {
+  ticker: string;
+  source: PriceDataSource;
+  fetchedAt: string;  // ISO timestamp of the fetch behind the series
+  barCount: number;
+  startDate: string;  // First bar date
+  endDate: string;    // Last bar date
+  reason?: string;    // Why mock data was used, e.g. "Alpha Vantage API Key is missing..."
 }
 
 // Structure of the response expected from the `optimizePortfolio` API endpoint/function.
-// Includes the results and an optional warning message (e.g., for rate limiting).
+// Includes the results, an optional warning message (e.g., for rate limiting),
+// the tickers excluded by screening and where each ticker's prices came from.
+// `placeholderResults` is set when no price data could be fetched and the results are random placeholders.
 export interface OptimizationApiResponse {
     results: OptimizationResult;
     warning?: string;
+    excludedTickers: ExcludedTicker[];
+    dataSources: TickerDataSource[];
+    placeholderResults: boolean;
 }
 
 // --- Data Service Types ---
@@ -129,6 +454,44 @@ export interface StockData {
   volume: number;
 }
 
+// Outcome of fetching one ticker in a batch: the value, or the error that prevented it
+export interface TickerFetchResult<T> {
+  ticker: string;
+  value?: T;
+  error?: string;
+}
+
+// Progress of the data fetching stage, reported once per ticker
+export interface FetchProgressEvent {
+  stage: 'fetching';
+  ticker: string;
+  status: 'fetched' | 'cached' | 'failed';
+  completed: number;  // Tickers finished so far, including this one
+  total: number;
+  message?: string;   // Failure reason
+  etaMs?: number;     // Estimated time until all tickers are fetched
+}
+
+// Progress of the optimizer (solver steps or simulated portfolios)
+export interface OptimizerProgressEvent {
+  stage: 'optimizing';
+  method: OptimizationMethod;
+  iteration: number;
+  totalIterations: number;
+  etaMs?: number;     // Estimated time until the optimizer finishes
+}
+
+// Events streamed by `optimizePortfolio` while it runs
+export type OptimizationProgressEvent = FetchProgressEvent | OptimizerProgressEvent;
+
+// Historical bars for one ticker together with where they were served from
+export interface HistoricalDataResult {
+  bars: StockData[];
+  source: PriceDataSource;
+  fetchedAt: string; // ISO timestamp of the fetch behind the bars
+  reason?: string;   // Why mock data was used
+}
+
 // --- Charting Data Structures ---
 
 // Data structure specifically formatted for the Allocation Bar Chart component